@@ -0,0 +1,329 @@
+/**
+ * blooky-animation.ts
+ * moments.framecountを用いて、値を時間とともに変化させるアニメーションを作る。
+ * 数値や色の文字列を流すアニメーションは、そのままjshtmlのstyleの値に渡せる。
+ * フレーム更新にはmoments.schedulerのrequestAnimationFrameを用いるため、virtualSchedulerのframeで進めて検証できる。
+ */
+import { Stream, Cell, stream, hold, listen, drip, track, scope, untracked, isCell, moments } from "./blooky";
+
+/**
+ * 補間できる値。数値、数値の配列、CSSの色の文字列を扱う。
+ */
+export type Tweenable = number | number[] | string;
+
+/**
+ * 補間できる値のリテラル型を、元の型に広げる。
+ */
+type Widen<A extends Tweenable> = A extends number ? number : A extends string ? string : number[];
+
+/**
+ * 経過時間から値を求める、再生前のアニメーション。
+ */
+export type Timeline<A> = {
+    /**
+     * 再生にかかるミリ秒
+     */
+    duration: number
+    /**
+     * 再生を始めてからのミリ秒における値を求める
+     * @param t
+     * @returns
+     */
+    at(t:number): A
+};
+
+/**
+ * 再生中のアニメーション。フレーム更新ごとに値を流すストリームで、再生を操作できる。
+ */
+export type Animation<A> = Stream<A> & Timeline<A> & {
+    /**
+     * 最後まで再生したときに値を流す
+     */
+    completed: Stream<void>
+    /**
+     * 再生中であるか
+     */
+    playing: Cell<boolean>
+    /**
+     * 現在の再生位置のミリ秒を取得する
+     * @returns
+     */
+    time(): number
+    /**
+     * 再生を一時停止する
+     */
+    pause(): void
+    /**
+     * 一時停止した位置から再生を再開する
+     */
+    resume(): void
+    /**
+     * 再生位置を移動し、その位置の値を流す
+     * @param t
+     */
+    seek(t:number): void
+};
+
+/**
+ * 補間の設定。
+ */
+export type TweenOptions = {
+    /**
+     * 再生にかかるミリ秒
+     */
+    duration?: number
+    /**
+     * 0から1の進み具合を、補間に用いる割合に変換する
+     */
+    easing?: (k:number) => number
+};
+
+/**
+ * springの設定。
+ */
+export type SpringOptions = {
+    /**
+     * ばねの強さ
+     */
+    stiffness?: number
+    /**
+     * 減衰の強さ
+     */
+    damping?: number
+    /**
+     * 質量
+     */
+    mass?: number
+    /**
+     * 目標との差と速度がこの値を下回れば停止する
+     */
+    precision?: number
+};
+
+/**
+ * よく用いる緩急の関数。
+ */
+const easings = {
+    linear: (k:number) => k,
+    easeIn: (k:number) => k * k * k,
+    easeOut: (k:number) => 1 - (1 - k) ** 3,
+    easeInOut: (k:number) => k < 0.5 ? 4 * k * k * k : 1 - (-2 * k + 2) ** 3 / 2
+};
+
+/**
+ * 値を範囲内に収める
+ * @param v
+ * @param min
+ * @param max
+ * @returns
+ */
+const clamp = (v:number, min:number, max:number) => Math.min(Math.max(v, min), max);
+
+/**
+ * CSSの色の文字列を、赤、緑、青、不透明度の数値の配列にする。#rgb、#rrggbb、#rrggbbaa、rgb()、rgba()を扱う。
+ * @param c
+ * @returns
+ */
+const parseColor = (c:string) : number[] => {
+    const hex = c.trim().match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i);
+    if (hex) {
+        const h = hex[1].length <= 4 ? [...hex[1]].map((x) => x + x).join("") : hex[1];
+        const [r, g, b, a = 255] = h.match(/../g)!.map((x) => parseInt(x, 16));
+        return [r, g, b, a / 255];
+    }
+    const rgb = c.trim().match(/^rgba?\(([^)]*)\)$/i);
+    if (rgb) {
+        const [r, g, b, a = "1"] = rgb[1].split(/[\s,/]+/).filter(Boolean);
+        return [parseFloat(r), parseFloat(g), parseFloat(b), a.endsWith("%") ? parseFloat(a) / 100 : parseFloat(a)];
+    }
+    throw new TypeError(`tween cannot interpolate the color "${c}"`);
+}
+
+/**
+ * 赤、緑、青、不透明度の数値の配列を、rgba()の文字列にする
+ * @param param0
+ * @returns
+ */
+const formatColor = ([r, g, b, a]:number[]) =>
+    `rgba(${[r, g, b].map((v) => Math.round(clamp(v, 0, 255))).join(", ")}, ${Math.round(clamp(a, 0, 1) * 1000) / 1000})`;
+
+/**
+ * 二つの値の間を、0から1の割合で補間する関数を作る
+ * @param from
+ * @param to
+ * @returns
+ */
+const interpolate = <A extends Tweenable>(from:A, to:A) : (k:number)=>A => {
+    if (typeof from === "number" && typeof to === "number") return (k) => from + (to - from) * k as A;
+    if (Array.isArray(from) && Array.isArray(to) && from.length === to.length) return (k) => from.map((v, i) => v + (to[i] - v) * k) as A;
+    if (typeof from === "string" && typeof to === "string") {
+        const f = interpolate(parseColor(from), parseColor(to));
+        return (k) => formatColor(f(k)) as A;
+    }
+    throw new TypeError("tween needs two numbers, two arrays of the same length or two colors");
+}
+
+/**
+ * 二つの値の間を補間する、再生前のアニメーションを作る。timelineの組み合わせに用いる。
+ * @param from
+ * @param to
+ * @param options
+ * @returns
+ */
+const interpolation = <A extends Tweenable>(from:A, to:Widen<A>, {duration = 300, easing = easings.linear}:TweenOptions = {}) : Timeline<Widen<A>> => {
+    const f = interpolate<Tweenable>(from, to) as (k:number)=>Widen<A>;
+    return {
+        duration,
+        at: (t) => f(easing(duration > 0 ? clamp(t / duration, 0, 1) : 1))
+    };
+}
+
+/**
+ * 再生前のアニメーションを再生する。フレーム更新ごとにその時点の値を流し、最後まで再生すると停止する。
+ * 実行中のscopeが解除されると、再生を停止する。
+ * @param timeline
+ * @returns
+ */
+const play = <A>({duration, at}:Timeline<A>) : Animation<A> => {
+    const completed = stream<void>();
+    const changes = stream<boolean>();
+    let base = 0;
+    let elapsed = 0;
+    let run: (()=>void) | null = null;
+    const time = () => Math.min(base + elapsed, duration);
+    const halt = () => {
+        run?.();
+        run = null;
+        base = time();
+        elapsed = 0;
+    };
+    const start = () => {
+        [, run] = untracked(() => scope(() => listen(moments.framecount(Infinity))((f) => {
+            elapsed = f.elapsed;
+            const t = time();
+            drip(a)(at(t));
+            if (t < duration) return;
+            halt();
+            drip(changes)(false);
+            drip(completed)(undefined);
+        })));
+    };
+    const a: Animation<A> = Object.assign(stream<A>(), {
+        duration,
+        at,
+        completed,
+        playing: hold(changes)(true),
+        time,
+        pause: () => {
+            if (!run) return;
+            halt();
+            drip(changes)(false);
+        },
+        resume: () => {
+            if (run || time() >= duration) return;
+            start();
+            drip(changes)(true);
+        },
+        seek: (t:number) => {
+            const playing = !!run;
+            halt();
+            base = clamp(t, 0, duration);
+            drip(a)(at(base));
+            // 終端に移動した場合は、次のフレーム更新で完了する
+            if (playing) start();
+        }
+    });
+    start();
+    track(halt);
+    return a;
+}
+
+/**
+ * 二つの値の間を補間する値を、フレーム更新ごとに流すアニメーションを作る。
+ * @param from
+ * @param to
+ * @param options
+ * @returns
+ */
+const tween = <A extends Tweenable>(from:A, to:Widen<A>, options?:TweenOptions) : Animation<Widen<A>> =>
+    play(interpolation(from, to, options));
+
+/**
+ * アニメーションを順に再生するアニメーションを作る
+ * @param timelines
+ * @returns
+ */
+const sequence = <A>(timelines:Timeline<A>[]) : Timeline<A> => {
+    if (!timelines.length) throw new Error("sequence needs at least one timeline");
+    return {
+        duration: timelines.reduce((d, t) => d + t.duration, 0),
+        at: (t) => {
+            for (const l of timelines.slice(0, -1)) {
+                if (t < l.duration) return l.at(Math.max(t, 0));
+                t -= l.duration;
+            }
+            const l = timelines[timelines.length - 1];
+            return l.at(Math.min(t, l.duration));
+        }
+    };
+}
+
+/**
+ * 開始をずらしながらアニメーションを同時に再生し、それぞれの値の組を流すアニメーションを作る
+ * @param timelines
+ * @param ms 一つ前のアニメーションから開始をずらすミリ秒
+ * @returns
+ */
+const stagger = <T extends Timeline<unknown>[] | []>(timelines:T, ms:number) : Timeline<{ [K in keyof T]: T[K] extends Timeline<infer V> ? V : never }> => ({
+    duration: Math.max(0, ...timelines.map((t, i) => i * ms + t.duration)),
+    at: (t) => timelines.map((l, i) => l.at(clamp(t - i * ms, 0, l.duration))) as { [K in keyof T]: T[K] extends Timeline<infer V> ? V : never }
+});
+
+/**
+ * アニメーションを同時に再生し、それぞれの値の組を流すアニメーションを作る
+ * @param timelines
+ * @returns
+ */
+const parallel = <T extends Timeline<unknown>[] | []>(timelines:T) => stagger(timelines, 0);
+
+/**
+ * 目標の値に向けて、ばねの動きで値を変化させるセルを作る。
+ * 移動中に目標が変わった場合は、その時点の速度を保ったまま新しい目標に向かう。
+ * @param target 目標の値を流すストリームかセル
+ * @returns
+ */
+const spring = <A extends number | number[]>(target:Stream<A>|Cell<A>) => (initial:A, {stiffness = 170, damping = 26, mass = 1, precision = 0.01}:SpringOptions = {}) : Cell<A> => {
+    const toArray = (v:A) => typeof v === "number" ? [v] : [...v as number[]];
+    const fromArray = (v:number[]) => (typeof initial === "number" ? v[0] : v) as A;
+    const s = stream<A>();
+    let x = toArray(initial);
+    let v = x.map(() => 0);
+    let goal = x;
+    let run: (()=>void) | null = null;
+    const step = (dt:number) => {
+        const a = x.map((x, i) => (-stiffness * (x - goal[i]) - damping * v[i]) / mass);
+        v = v.map((v, i) => v + a[i] * dt);
+        x = x.map((x, i) => x + v[i] * dt);
+    };
+    const start = () => {
+        [, run] = untracked(() => scope(() => listen(moments.framecount(Infinity))(({deltaTime}) => {
+            // 大きな間隔で発散しないよう、間隔を上限で切り、細かく分けて積分する
+            for (let dt = Math.min(deltaTime, 100) / 1000; dt > 0; dt -= 1 / 240) step(Math.min(dt, 1 / 240));
+            if (x.every((x, i) => Math.abs(x - goal[i]) < precision && Math.abs(v[i]) < precision)) {
+                x = goal;
+                v = x.map(() => 0);
+                run?.();
+                run = null;
+            }
+            drip(s)(fromArray(x));
+        })));
+    };
+    listen(isCell<A>(target) ? target.updates() : target)((g) => {
+        goal = toArray(g);
+        if (!run) start();
+    });
+    track(() => run?.());
+    return hold(s)(initial);
+}
+
+export {easings, interpolation, play, tween, sequence, parallel, stagger, spring};
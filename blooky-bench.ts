@@ -0,0 +1,182 @@
+/**
+ * blooky-bench.ts
+ * dripの性能を測定するベンチマーク。
+ * 深いグラフと広いグラフを組み立て、一秒あたりのdrip数とdrip一回あたりに確保したヒープの大きさを測る。
+ * ヒープの測定にはnodeのprocess.memoryUsageを用いるため、--expose-gcを指定して実行する。npm run benchで既定の測定対象を測る。
+ */
+import { Stream, stream, pipe, filter, merge, snapshot, hold, listen, drip } from "./blooky";
+
+/**
+ * 測定対象のグラフ。
+ */
+export type BenchCase = {
+    name: string
+    /**
+     * グラフを組み立て、値を流し込むストリームを返す
+     */
+    setup: () => Stream<number>
+};
+
+/**
+ * 一つの測定対象の結果。
+ */
+export type BenchResult = {
+    name: string
+    drips: number
+    /**
+     * 一秒あたりのdrip数
+     */
+    dripsPerSecond: number
+    /**
+     * drip一回あたりに確保したヒープの大きさ。測定できない環境ではnull
+     */
+    bytesPerDrip: number | null
+};
+
+/**
+ * 測定の設定。
+ */
+export type BenchOptions = {
+    /**
+     * 一つの測定対象に費やすミリ秒
+     */
+    duration?: number
+    /**
+     * 測定前に捨てるdrip数
+     */
+    warmup?: number
+    /**
+     * ヒープの確保量を測るdrip数
+     */
+    samples?: number
+};
+
+/**
+ * 関数の実行中に確保されたヒープの大きさを返す。ガベージコレクトを行えない環境ではnullを返す。
+ * @param f
+ * @returns
+ */
+const allocated = (f:()=>void) : number | null => {
+    const g = globalThis as { process?: { memoryUsage(): { heapUsed: number } }, gc?: () => void };
+    if (!g.process || !g.gc) return null;
+    g.gc();
+    const before = g.process.memoryUsage().heapUsed;
+    f();
+    return g.process.memoryUsage().heapUsed - before;
+}
+
+/**
+ * pipeを一列に連ねたグラフ
+ * @param depth
+ * @returns
+ */
+const deep = (depth:number) : BenchCase => ({
+    name: `deep(${depth})`,
+    setup: () => {
+        const s = stream<number>();
+        let t: Stream<number> = s;
+        for (let i = 0; i < depth; i++) t = pipe(t)((v) => v + 1);
+        listen(t)(() => {});
+        return s;
+    }
+});
+
+/**
+ * 一つのストリームから多数のpipeに分岐し、それぞれを監視するグラフ
+ * @param width
+ * @returns
+ */
+const wide = (width:number) : BenchCase => ({
+    name: `wide(${width})`,
+    setup: () => {
+        const s = stream<number>();
+        for (let i = 0; i < width; i++) listen(pipe(s)((v) => v * i))(() => {});
+        return s;
+    }
+});
+
+/**
+ * 分岐したストリームをフィルタし、マージしてセルに保持するグラフ
+ * @param width
+ * @returns
+ */
+const diamond = (width:number) : BenchCase => ({
+    name: `diamond(${width})`,
+    setup: () => {
+        const s = stream<number>();
+        const branches = Array.from({ length: width }, (_, i) => filter(pipe(s)((v) => v + i))((v) => v % 2 === 0));
+        const c = hold(merge(branches)((a, b) => a + b))(0);
+        listen(snapshot(s)(c))(() => {});
+        return s;
+    }
+});
+
+/**
+ * 分岐を重ねた木構造のグラフ。多数の派生値を持つ画面を想定する。
+ * @param fanout
+ * @param depth
+ * @returns
+ */
+const tree = (fanout:number, depth:number) : BenchCase => ({
+    name: `tree(${fanout}^${depth})`,
+    setup: () => {
+        const s = stream<number>();
+        const grow = (t:Stream<number>, d:number) : void => {
+            if (!d) {
+                hold(t)(0);
+                return;
+            }
+            for (let i = 0; i < fanout; i++)
+                grow(i % 2 ? filter(t)((v) => v >= 0) : pipe(t)((v) => v + i), d - 1);
+        };
+        grow(s, depth);
+        return s;
+    }
+});
+
+/**
+ * 既定の測定対象。
+ */
+const defaultCases: BenchCase[] = [deep(10), deep(500), wide(10), wide(500), diamond(50), tree(4, 5)];
+
+/**
+ * 測定対象ごとに、一定時間dripを繰り返して性能を測る。
+ * @param cases
+ * @param options
+ * @returns
+ */
+const runBenchmarks = (cases:BenchCase[] = defaultCases, {duration = 500, warmup = 100, samples = 20}:BenchOptions = {}) : BenchResult[] =>
+    cases.map(({name, setup}) => {
+        const s = setup();
+        for (let i = 0; i < warmup; i++) drip(s)(i);
+        // 途中でガベージコレクトが起きると確保量を少なく見積もるため、一回ずつ測る
+        const bytes = Array.from({ length: samples }, (_, i) => allocated(() => drip(s)(i)))
+            .reduce<number | null>((a, b) => a != null && b != null ? a + b : null, 0);
+        const start = performance.now();
+        let drips = 0;
+        let elapsed = 0;
+        // 時刻の取得を減らすため、100回ごとに経過時間を調べる
+        while (elapsed < duration) {
+            for (let i = 0; i < 100; i++) drip(s)(drips++);
+            elapsed = performance.now() - start;
+        }
+        return {
+            name,
+            drips,
+            dripsPerSecond: Math.round(drips / elapsed * 1000),
+            bytesPerDrip: bytes != null ? Math.max(0, Math.round(bytes / samples)) : null
+        };
+    });
+
+/**
+ * 測定結果を表形式の文字列にする。
+ * @param results
+ * @returns
+ */
+const formatResults = (results:BenchResult[]) : string =>
+    [
+        "case            drips/s      bytes/drip",
+        ...results.map((r) => `${r.name.padEnd(16)}${String(r.dripsPerSecond).padStart(10)}  ${String(r.bytesPerDrip ?? "-").padStart(12)}`)
+    ].join("\n");
+
+export {deep, wide, diamond, tree, defaultCases, runBenchmarks, formatResults};
@@ -3,11 +3,17 @@
  * blooky-domを用いてリアクティブなDOMを構築するライブラリ。
  * 簡易な仕様でDOMを構築しつつ、Streamを利用した更新管理も行う。
  */
-import { Stream, isStream, listen, Prop, stream, drip } from "./blooky";
+import { Stream, Cell, isStream, isCell, listen, Prop, stream, drip, pipe, filter, hold, scope, track, untracked } from "./blooky";
 
 export type HTMLAttrName =
     "abbr" | "accept" | "accept-charset" | "accesskey" | "action" | "allow" | "allowfullscreen" | "allowpaymentrequest" | "alt" | "as" | "async" | "autocapitalize" | "autocomplete" | "autofocus" | "autoplay" | "charset" | "checked" | "cite" | "class" | "color" | "cols" | "colspan" | "content" | "contenteditable" | "controls" | "coords" | "crossorigin" | "data" | "datetime" | "decoding" | "default" | "defer" | "dir" | "dir" | "dirname" | "disabled" | "download" | "draggable" | "enctype" | "enterkeyhint" | "for" | "form" | "formaction" | "formenctype" | "formmethod" | "formnovalidate" | "formtarget" | "headers" | "height" | "hidden" | "high" | "href" | "hreflang" | "http-equiv" | "id" | "imagesizes" | "imagesrcset" | "inputmode" | "integrity" | "is" | "ismap" | "itemid" | "itemprop" | "itemref" | "itemscope" | "itemtype" | "kind" | "label" | "lang" | "list" | "loop" | "low" | "manifest" | "max" | "maxlength" | "media" | "method" | "min" | "minlength" | "multiple" | "muted" | "name" | "nomodule" | "nonce" | "novalidate" | "open" | "optimum" | "pattern" | "ping" | "placeholder" | "playsinline" | "poster" | "preload" | "readonly" | "referrerpolicy" | "rel" | "required" | "reversed" | "rows" | "rowspan" | "sandbox" | "scope" | "selected" | "shape" | "size" | "sizes" | "slot" | "span" | "spellcheck" | "src" | "srcdoc" | "srclang" | "srcset" | "start" | "step" | "style" | "tabindex" | "target" | "title" | "translate" | "type" | "usemap" | "value";
 
+export type SVGAttrName =
+    "accent-height" | "alignment-baseline" | "baseline-shift" | "clip-path" | "clip-rule" | "clipPathUnits" | "color-interpolation" | "color-interpolation-filters" | "cx" | "cy" | "d" | "dominant-baseline" | "dx" | "dy" | "fill" | "fill-opacity" | "fill-rule" | "filter" | "filterUnits" | "flood-color" | "flood-opacity" | "font-family" | "font-size" | "font-style" | "font-weight" | "fr" | "fx" | "fy" | "gradientTransform" | "gradientUnits" | "href" | "letter-spacing" | "marker-end" | "marker-mid" | "marker-start" | "markerHeight" | "markerUnits" | "markerWidth" | "mask" | "maskContentUnits" | "maskUnits" | "offset" | "opacity" | "orient" | "paint-order" | "pathLength" | "patternContentUnits" | "patternTransform" | "patternUnits" | "pointer-events" | "points" | "preserveAspectRatio" | "r" | "refX" | "refY" | "rotate" | "rx" | "ry" | "shape-rendering" | "spreadMethod" | "stop-color" | "stop-opacity" | "stroke" | "stroke-dasharray" | "stroke-dashoffset" | "stroke-linecap" | "stroke-linejoin" | "stroke-miterlimit" | "stroke-opacity" | "stroke-width" | "text-anchor" | "text-decoration" | "textLength" | "transform" | "transform-origin" | "vector-effect" | "viewBox" | "visibility" | "x" | "x1" | "x2" | "xlink:href" | "xlink:title" | "xml:lang" | "xml:space" | "xmlns" | "xmlns:xlink" | "y" | "y1" | "y2";
+
+export type MathMLAttrName =
+    "accent" | "accentunder" | "columnspan" | "display" | "displaystyle" | "fence" | "largeop" | "linethickness" | "lspace" | "mathbackground" | "mathcolor" | "mathsize" | "mathvariant" | "maxsize" | "minsize" | "movablelimits" | "rowspan" | "rspace" | "scriptlevel" | "separator" | "stretchy" | "symmetric" | "voffset";
+
 export type WritableCSSProperty = Exclude<keyof CSSStyleDeclaration,
     "getPropertyPriority"|
     "getPropertyValue"|
@@ -21,13 +27,31 @@ export type WritableCSSProperty = Exclude<keyof CSSStyleDeclaration,
 >;
 
 type HTMLTag = keyof HTMLElementTagNameMap;
+type SVGTag = keyof SVGElementTagNameMap;
+type MathMLTag = keyof MathMLElementTagNameMap;
+type JSHTMLElement = Element & ElementCSSInlineStyle & HTMLOrSVGElement;
+type JSHTMLElementOf<T> =
+    T extends HTMLTag ? HTMLElementTagNameMap[T] :
+    T extends SVGTag ? SVGElementTagNameMap[T] :
+    T extends MathMLTag ? MathMLElementTagNameMap[T] :
+    HTMLElement;
 type HTMLEventHandlers = Extract<keyof GlobalEventHandlers,`on${string}`>;
 
 type V_STRING = string | number | boolean | undefined | null;
-type V_CLASSLIST = string[]|{[key:string]:boolean};
-type V_DATASET = {[key:string]:V_STRING};
-type V_STYLE = { [key in WritableCSSProperty]?: V_STRING|Stream<V_STRING> };
+type V_LIVE<V> = V|Cell<V>|Stream<V>;
+type V_CLASSLIST = string[]|{[key:string]:V_LIVE<boolean>};
+type V_DATASET = {[key:string]:V_LIVE<V_STRING>};
+type V_STYLE = { [key in WritableCSSProperty]?: V_LIVE<V_STRING> };
 type V_EVENTLISTENER = EventListenerOrEventListenerObject|GlobalEventHandlers[HTMLEventHandlers];
+type HandlerEvent<K extends HTMLEventHandlers> = Parameters<NonNullable<GlobalEventHandlers[K]>>[0];
+type V_EVENTSINK<E> = Stream<E>|Stream<Event>|EventBinding<E>;
+type V_MODEL =
+    [Cell<string>, Stream<string>]|
+    [Cell<string|null>, Stream<string|null>]|
+    [Cell<number>, Stream<number>]|
+    [Cell<boolean>, Stream<boolean>]|
+    [Cell<string[]>, Stream<string[]>];
+type FormControl = HTMLInputElement|HTMLSelectElement|HTMLTextAreaElement;
 type T_ATTRSET = 
     ["dataset", V_DATASET]|
     ["style", V_STYLE]|
@@ -39,26 +63,148 @@ type T_ATTRSET =
 
 type JSHTMLFragmentSource = JSHTMLNodeSource[];
 type JSHTMLTextSource = V_STRING;
-type JSHTMLNodeSource = JSHTMLElementSource<string> | JSHTMLTextSource | JSHTMLFragmentSource;
+type JSHTMLNodeSource = JSHTMLElementSource<string> | JSHTMLTextSource | JSHTMLFragmentSource | Node | JSHTMLDeferredSource;
 type JSHTMLAttrSource = 
     T_ATTRSET[1];
 
 type JSHTMLAttributeMapSource =
     Partial<
-        { dataset: V_DATASET, style: V_STYLE, classList: V_CLASSLIST } &
-        { [key in HTMLAttrName]: JSHTMLAttrSource } & 
-        { [key in HTMLEventHandlers]: GlobalEventHandlers[key] }
+        { dataset: V_LIVE<V_DATASET>, style: V_LIVE<V_STYLE>, classList: V_LIVE<V_CLASSLIST>, model: V_MODEL } &
+        { [key in HTMLAttrName|SVGAttrName|MathMLAttrName]: V_LIVE<JSHTMLAttrSource> } & 
+        { [key in HTMLEventHandlers]: GlobalEventHandlers[key] | Cell<GlobalEventHandlers[key]> | V_EVENTSINK<HandlerEvent<key>> }
     >;
 type JSHTMLElementSource<T extends string> = 
     { [key in T]: T extends "$" ? JSHTMLAttributeMapSource : JSHTMLNodeSource };
 
+const JSHTML_SERIALIZE = Symbol("JSHTML_SERIALIZE");
+const JSHTML_HYDRATE = Symbol("JSHTML_HYDRATE");
+
+/**
+ * 評価されるまでDOMを生成しないソース。jshtmlは関数として呼び出してDOMを生成し、
+ * renderToStringとhydrateはDOMを生成せずに、それぞれHTML文字列への変換と既存のノードとの突き合わせを行う。
+ */
+export type JSHTMLDeferredSource = (() => Node) & {
+    [JSHTML_SERIALIZE]: () => string
+    [JSHTML_HYDRATE]: (p:Node, n:Node|null) => Node|null
+};
+
+const HTML_NS = "http://www.w3.org/1999/xhtml";
+const SVG_NS = "http://www.w3.org/2000/svg";
+const MATHML_NS = "http://www.w3.org/1998/Math/MathML";
+
+/**
+ * 接頭辞つきの属性名と、その名前空間の対応。
+ */
+const ATTR_NS: {[prefix:string]:string} = {
+    xlink: "http://www.w3.org/1999/xlink",
+    xml: "http://www.w3.org/XML/1998/namespace",
+    xmlns: "http://www.w3.org/2000/xmlns/"
+};
+
+/**
+ * 生成中の要素の名前空間。svgやmathの子孫を生成する間だけ切り替わる。
+ */
+let namespace = HTML_NS;
+
+/**
+ * 名前空間を切り替えて関数を実行する
+ * @param ns 
+ * @returns 
+ */
+const in_namespace = (ns:string) => <R>(f:()=>R) : R => {
+    const prev = namespace;
+    namespace = ns;
+    try {
+        return f();
+    } finally {
+        namespace = prev;
+    }
+}
+
+/**
+ * ノードの子を生成するときの名前空間を返す。要素でなければ生成中の名前空間を引き継ぐ。
+ * @param p 
+ * @returns 
+ */
+const child_namespace = (p:Node|null) : string =>
+    p instanceof Element
+        ? p.namespaceURI === SVG_NS && p.localName === "foreignObject" ? HTML_NS : p.namespaceURI ?? HTML_NS
+        : namespace;
+
+/**
+ * on*属性でイベントを受け取る際の修飾。
+ */
+export type EventModifiers = {
+    /**
+     * 受け取る前にpreventDefaultを呼ぶ
+     */
+    preventDefault?: boolean
+    /**
+     * 受け取る前にstopPropagationを呼ぶ
+     */
+    stopPropagation?: boolean
+    /**
+     * 一度だけ受け取る
+     */
+    once?: boolean
+    /**
+     * passiveなリスナーとして登録する。委譲する場合は用いない
+     */
+    passive?: boolean
+    /**
+     * キャプチャーフェーズで受け取る
+     */
+    capture?: boolean
+    /**
+     * 要素ではなく、文書または指定したノードに一つだけ登録したリスナーから受け取る
+     */
+    delegate?: boolean | Node
+};
+
+/**
+ * on*属性に渡す、イベントの受け取り先と修飾の組。
+ */
+export type EventBinding<E> = EventModifiers & {
+    /**
+     * イベントを流すストリーム、またはイベントリスナー
+     */
+    sink: Stream<E>|Stream<Event>|((ev:E)=>void)
+};
+
 /**
  * tag指定がjshtmlの仕様に沿わなかった場合に生成される要素の定義。
+ * DOMのない環境でも読み込めるよう、customElementsがある場合のみ定義する。
  */
-class JSHTMLUnknownElement extends HTMLElement {}
-customElements.define("jshtml-unknown", JSHTMLUnknownElement);
+if(typeof HTMLElement !== "undefined" && typeof customElements !== "undefined")
+    customElements.define("jshtml-unknown", class JSHTMLUnknownElement extends HTMLElement {});
 
 
+/**
+ * DOMを生成する関数に、HTML文字列への変換と既存のノードとの突き合わせを加えたソースを作る
+ * @param create 
+ * @param serialize 
+ * @param hydrate 
+ * @returns 
+ */
+const deferred_source = (create:()=>Node, serialize:()=>string, hydrate:(p:Node, n:Node|null)=>Node|null) : JSHTMLDeferredSource =>
+    Object.assign(create, { [JSHTML_SERIALIZE]: serialize, [JSHTML_HYDRATE]: hydrate });
+
+/**
+ * 評価されるまでDOMを生成しないソースかを判定する
+ * @param s 
+ * @returns 
+ */
+const is_deferred = (s:unknown) : s is JSHTMLDeferredSource =>
+    typeof s === "function" && JSHTML_SERIALIZE in s;
+
+/**
+ * セルであれば現在の値を、ストリームであれば未定義を返す
+ * @param v 
+ * @returns 
+ */
+const sample_live = <V>(v:V_LIVE<V>) : V|undefined =>
+    isCell<V>(v) ? v.sample() : isStream<V>(v) ? undefined : v;
+
 /**
  * class属性の設定用関数を生成する
  * @param v 
@@ -68,10 +214,13 @@ const gen_className_setter = (v:V_CLASSLIST|V_STRING) :(e:Element)=>void =>
     v == null
     ? (e:Element) => e.removeAttribute("class")
     : Array.isArray(v)
-    ? (e:Element) => e.className = v.filter(Boolean).join(" ")
-    : (e:Element) => e.className = typeof v === "object"
-        ? Object.keys(v).filter((k)=>v[k]).join(" ")
-        : v + "";
+    ? (e:Element) => e.setAttribute("class", v.filter(Boolean).join(" "))
+    : typeof v === "object"
+    ? (e:Element) => {
+        e.setAttribute("class", Object.keys(v).filter((k)=>sample_live(v[k])).join(" "));
+        Object.entries(v).forEach(([k,v]) => bind_live(v)(bind_class_stream)([e,k]));
+    }
+    : (e:Element) => e.setAttribute("class", v + "");
 
 /**
  * datasetの設定用関数を生成する
@@ -81,8 +230,12 @@ const gen_className_setter = (v:V_CLASSLIST|V_STRING) :(e:Element)=>void =>
 const gen_dataset_setter =
     (v:V_DATASET|null) =>
         v == null
-        ? (e:HTMLElement) => Object.keys(e.dataset).forEach((k)=> delete e.dataset[k])
-        : (e:HTMLElement) => Object.entries(v).forEach(([k,v]) => e.dataset[k] = v != null ? v + "" : '');
+        ? (e:JSHTMLElement) => Object.keys(e.dataset).forEach((k)=> delete e.dataset[k])
+        : (e:JSHTMLElement) => Object.entries(v).forEach(([k,v]) => {
+            const _v = sample_live(v);
+            e.dataset[k] = _v != null ? _v + "" : '';
+            bind_live(v)(bind_dataset_stream)([e,k]);
+        });
 
 /**
  * インラインスタイルの設定用関数を生成する
@@ -92,14 +245,13 @@ const gen_dataset_setter =
 const gen_style_setter =
     (v:V_STYLE) =>
         v == null
-        ? (e:HTMLElement) => e.removeAttribute("style")
-        : (e:HTMLElement) => 
-            (Object.entries(v) as [WritableCSSProperty,V_STRING][]).forEach(([k,v]) => {
-                if(isStream<V_STYLE>(v)) {
-                    bind_style_stream(v)([e,k]);
-                } else {
-                    e.style[k as any] = v != null ? v + '' : ''
-                }
+        ? (e:JSHTMLElement) => e.removeAttribute("style")
+        : (e:JSHTMLElement) => 
+            (Object.entries(v) as [WritableCSSProperty,V_LIVE<V_STRING>][]).forEach(([k,v]) => {
+                const _v = sample_live(v);
+                if(!isStream(v))
+                    e.style[k as any] = _v != null ? _v + '' : '';
+                bind_live(v)(bind_style_stream)([e,k]);
             })
 
 
@@ -116,23 +268,46 @@ const gen_listener_setter =
         : (e:Element) => e.setAttribute(n,v+"");
 
 /**
- * 仕様に沿った要素を生成する
+ * 仕様に沿った要素を生成する。svgとmathの子孫は、それぞれの名前空間の要素として生成する。
  * @param s 
  * @returns 
  */
 const element = <T extends string>(s:JSHTMLElementSource<T|"$">) => {
     const [tag,children,attrs] = extractElementSource<T>(s);
-    const elm = document.createElement(tag);
+    const ns = tag === "svg" ? SVG_NS : tag === "math" ? MATHML_NS : namespace;
+    const elm = (ns === HTML_NS ? document.createElement(tag) : document.createElementNS(ns, tag)) as JSHTMLElement;
     if(children)
-        elm.append(jshtml(children));
+        elm.append(in_namespace(child_namespace(elm))(() => jshtml(children)));
     if(attrs)
-        Object.entries(attrs).forEach(([k,v])=> {
-            if(isStream<JSHTMLAttrSource>(v))
-                bind_attr_stream(v)([elm,k]);
-            else
-                update_attr(elm)([k,v] as T_ATTRSET);
-        })
-    return elm as T extends HTMLTag ? HTMLElementTagNameMap[T] : HTMLElement;
+        bind_attrs(elm)(attrs);
+    return elm as JSHTMLElementOf<T>;
+}
+
+/**
+ * 要素に属性を設定し、セルやストリームの値はバインディングする
+ * @param elm 
+ * @returns 
+ */
+const bind_attrs = (elm:JSHTMLElement) => (attrs:JSHTMLAttributeMapSource) => {
+    Object.entries(attrs).forEach(([k,v])=> {
+        if(k === "model")
+            return;
+        if(/^on/.test(k) && isCell<V_EVENTLISTENER>(v))
+            gen_listener_setter(live_listener(v), k)(elm);
+        else if(/^on/.test(k) && (isStream<Event>(v) || is_event_binding(v)))
+            bind_event(elm, k.slice(2))(isStream<Event>(v) ? { sink: v } : v);
+        else if(isStream<JSHTMLAttrSource>(v))
+            bind_attr_stream(v)([elm,k]);
+        else if(isCell<JSHTMLAttrSource>(v)) {
+            update_attr(elm)([k,v.sample()] as T_ATTRSET);
+            bind_attr_stream(v.updates() as Stream<JSHTMLAttrSource>)([elm,k]);
+        }
+        else
+            update_attr(elm)([k,v] as T_ATTRSET);
+    });
+    // typeによって読み書きする値が変わるため、modelは他の属性を設定してからバインディングする
+    if(attrs.model)
+        bind_model(attrs.model)(elm as FormControl);
 }
 
 /**
@@ -154,53 +329,241 @@ const extractElementSource = <T extends string>(s:JSHTMLElementSource<T>) : [T,J
 
 /**
  * ノードとストリームのバインディングを行う。
+ * 範囲内に生成したDOMのバインディングは、次の更新か、このバインディングの解除の際に解除する。
+ * 範囲が親ノードから取り除かれている間の更新は行わない。
  * @param s 
  * @returns 
  */
-const bind_node_stream = (s:Stream<JSHTMLNodeSource>) => function f(p:[Node,Node]) {
-    const unlisten = listen(s)((v) => {
-        if(p.every((n)=>n.isConnected))
-            f(update_range(p)(v));
-        unlisten();
+const bind_node_stream = (s:Stream<JSHTMLNodeSource>) => (p:[Node,Node], dispose:()=>void = () => {}) =>
+    release_detached(() => p[0])(() => {
+        listen(s)((v) => {
+            if(!p.every((n)=>n.parentNode))
+                return;
+            dispose();
+            [p, dispose] = untracked(() => scope(() => update_range(p)(v)));
+        });
+        track(() => dispose());
     });
-}
 
 /**
  * 属性とストリームのバインディングを行う
  * @param s 
  * @returns 
  */
-const bind_attr_stream = (s:Stream<JSHTMLAttrSource>) => function f([e,n]:[HTMLElement,string]) {
-    const unlisten = listen(s)((v) => {
-        if(e.isConnected) {
-            update_attr(e)([n,v] as T_ATTRSET);
-            f([e,n]);
-        }
-        unlisten();
-    });
-}
+const bind_attr_stream = (s:Stream<JSHTMLAttrSource>) => ([e,n]:[JSHTMLElement,string]) =>
+    release_detached(() => e)(() => listen(s)((v) => update_attr(e)([n,v] as T_ATTRSET)));
 
 /**
  * スタイル属性値とストリームをバインディングする
  * @param s 
  * @returns 
  */
-const bind_style_stream = (s:Stream<V_STYLE>) => ([e,p]:[HTMLElement, WritableCSSProperty]) => {
-    const unlisten = listen(s)((v) => {
-        if(e.isConnected) {
-            e.style[p] = v + "";
-            unlisten();
-        }
+const bind_style_stream = (s:Stream<V_STRING>) => ([e,p]:[JSHTMLElement, WritableCSSProperty]) =>
+    release_detached(() => e)(() => listen(s)((v) => e.style[p as any] = v != null ? v + "" : ""));
+
+/**
+ * classListの一つのクラスとストリームをバインディングする
+ * @param s 
+ * @returns 
+ */
+const bind_class_stream = (s:Stream<boolean>) => ([e,k]:[Element, string]) =>
+    release_detached(() => e)(() => listen(s)((v) => e.classList.toggle(k, !!v)));
+
+/**
+ * datasetの一つの値とストリームをバインディングする
+ * @param s 
+ * @returns 
+ */
+const bind_dataset_stream = (s:Stream<V_STRING>) => ([e,k]:[JSHTMLElement, string]) =>
+    release_detached(() => e)(() => listen(s)((v) => e.dataset[k] = v != null ? v + "" : ''));
+
+/**
+ * セルかストリームであれば、その更新をバインディング関数に渡す関数を返す。それ以外の値では何もしない。
+ * @param v 
+ * @returns 
+ */
+const bind_live = <V>(v:V_LIVE<V>) => <P>(bind:(s:Stream<V>)=>(p:P)=>void) => (p:P) => {
+    if(isCell<V>(v))
+        bind(v.updates())(p);
+    else if(isStream<V>(v))
+        bind(v)(p);
+}
+
+/**
+ * セルの現在の値に処理を委ねるイベントリスナーを作る
+ * @param c 
+ * @returns 
+ */
+const live_listener = (c:Cell<V_EVENTLISTENER>) => function (this:GlobalEventHandlers, ev:Event) {
+    const l = c.sample();
+    if(typeof l === "function")
+        return l.call(this, ev as any);
+    if(l && typeof l.handleEvent === "function")
+        return l.handleEvent(ev);
+}
+
+/**
+ * フォーム部品の種類に応じて、双方向バインディングで用いるイベント名と値の読み書きを返す。
+ * チェックボックスはchecked、ラジオボタンは選ばれていれば自身のvalue、選ばれていなければnull、数値の入力はvalueAsNumber、複数選択のselectはselectedOptionsの値の配列を用いる。
+ * @param e 
+ * @returns 
+ */
+const model_accessor = (e:FormControl) : [string, ()=>unknown, (v:unknown)=>void] => {
+    if(e instanceof HTMLInputElement && e.type === "checkbox")
+        return ["change", () => e.checked, (v) => e.checked = !!v];
+    if(e instanceof HTMLInputElement && e.type === "radio")
+        return ["change", () => e.checked ? e.value : null, (v) => e.checked = v === e.value];
+    if(e instanceof HTMLInputElement && (e.type === "number" || e.type === "range"))
+        return ["input", () => e.valueAsNumber, (v) => e.valueAsNumber = v as number];
+    if(e instanceof HTMLSelectElement && e.multiple)
+        return ["change",
+            () => Array.from(e.selectedOptions, (o) => o.value),
+            (v) => Array.from(e.options).forEach((o) => o.selected = (v as string[]).includes(o.value))];
+    return [e instanceof HTMLSelectElement ? "change" : "input", () => e.value, (v) => e.value = v != null ? v + "" : ""];
+}
+
+/**
+ * フォーム部品とセルを双方向にバインディングする。
+ * セルの値は部品に書き込み、利用者の編集はシンクへ流す。部品の値と同じ値は書き込まないため、編集がセルを経由して部品へ戻っても入力位置は失われない。
+ * バインディングの解除では、イベントリスナーも取り除く。
+ * @param param0 現在の値を表すセルと、利用者の編集を受け取るシンクの組
+ * @returns 
+ */
+const bind_model = ([c,sink]:V_MODEL) => (e:FormControl) => {
+    const [type, read, write] = model_accessor(e);
+    const update = (v:unknown) => {
+        if(JSON.stringify(read()) !== JSON.stringify(v))
+            write(v);
+    };
+    const l = () => drip(sink as Stream<unknown>)(read());
+    update(c.sample());
+    release_detached(() => e)(() => {
+        listen(c.updates() as Stream<unknown>)(update);
+        e.addEventListener(type, l);
+        track(() => e.removeEventListener(type, l));
     });
 }
 
+/**
+ * on*属性の値がイベントの受け取り先と修飾の組かを判定する
+ * @param v 
+ * @returns 
+ */
+const is_event_binding = (v:unknown) : v is EventBinding<Event> =>
+    typeof v === "object" && v != null && "sink" in v;
+
+/**
+ * 委譲されたイベントのリスナーと、受け取る要素の一覧。
+ */
+type Delegation = {
+    listener: (ev:Event) => void
+    handlers: Map<Element, Set<(ev:Event)=>void>>
+    dispose: () => void
+};
+
+/**
+ * 委譲先のノードごとの、イベント種別とフェーズをキーにした委譲の一覧。
+ */
+const delegations = new WeakMap<Node, Map<string, Delegation>>();
+
+/**
+ * 委譲先のノードにイベント種別ごとに一つだけリスナーを登録し、要素に届いたイベントを振り分ける。
+ * 文書から切り離された要素は、委譲先の変異を監視して取り除き、受け取る要素がなくなればリスナーも解除する。
+ * @param root 
+ * @param type 
+ * @param capture 
+ * @returns 登録を解除する関数
+ */
+const delegate = (root:Node, type:string, capture:boolean) => (e:Element, h:(ev:Event)=>void) : (()=>void) => {
+    const key = `${type}:${capture}`;
+    const m = delegations.get(root) ?? new Map<string, Delegation>();
+    delegations.set(root, m);
+    const d = m.get(key) ?? untracked(() : Delegation => {
+        const handlers = new Map<Element, Set<(ev:Event)=>void>>();
+        // 一度でも接続を確認した要素だけを、切り離された要素として取り除く
+        const seen = new WeakSet<Element>();
+        const listener = (ev:Event) => {
+            const path = ev.composedPath();
+            const end = path.indexOf(root);
+            const targets = (end < 0 ? path : path.slice(0, end)).filter((n) => handlers.has(n as Element)) as Element[];
+            (capture ? targets.reverse() : targets).every((n) => {
+                handlers.get(n)?.forEach((h) => h.call(n, ev));
+                return !ev.cancelBubble;
+            });
+        };
+        const [records, disconnect] = mutations(root)({ childList: true, subtree: true });
+        listen(records)(() => {
+            handlers.forEach((_, e) => {
+                if(e.isConnected)
+                    seen.add(e);
+                else if(seen.has(e))
+                    handlers.delete(e);
+            });
+            if(!handlers.size)
+                d.dispose();
+        });
+        root.addEventListener(type, listener, capture);
+        const d = {
+            listener,
+            handlers,
+            dispose: () => {
+                root.removeEventListener(type, listener, capture);
+                disconnect();
+                m.delete(key);
+            }
+        };
+        m.set(key, d);
+        return d;
+    });
+    const hs = d.handlers.get(e) ?? new Set();
+    d.handlers.set(e, hs);
+    hs.add(h);
+    return () => {
+        hs.delete(h);
+        if(!hs.size && d.handlers.get(e) === hs)
+            d.handlers.delete(e);
+        if(!d.handlers.size && m.get(key) === d)
+            d.dispose();
+    };
+}
+
+/**
+ * 要素のイベントを、修飾に従ってストリームかイベントリスナーに渡す
+ * @param e 
+ * @param type 
+ * @returns 
+ */
+const bind_event = (e:Element, type:string) => (b:EventBinding<Event>) => {
+    const {sink} = b;
+    const send = typeof sink === "function"
+        ? sink
+        : (ev:Event) => { drip(sink as Stream<Event>)(ev); };
+    const l = (ev:Event) => {
+        if(b.preventDefault) ev.preventDefault();
+        if(b.stopPropagation) ev.stopPropagation();
+        send(ev);
+    };
+    if(b.delegate) {
+        const off = delegate(b.delegate === true ? e.ownerDocument : b.delegate, type, !!b.capture)(e, b.once
+            ? (ev) => { off(); l(ev); }
+            : l);
+        return track(off);
+    }
+    const options = { once: b.once, passive: b.passive, capture: b.capture };
+    e.addEventListener(type, l, options);
+    track(() => e.removeEventListener(type, l, options));
+}
+
 /**
  * DOM範囲の更新を行う
  * @param param0 
  * @returns 
  */
 const update_range = ([a,b]:[Node,Node]) => (v:JSHTMLNodeSource) : [Node,Node] => {
-    const n = jshtml(v);
+    const n = in_namespace(child_namespace(a.parentNode))(() => jshtml(v));
+    // 空の範囲は更新できなくなるため、プレースホルダーを残す
+    if(n.nodeType === n.DOCUMENT_FRAGMENT_NODE && !n.firstChild)
+        n.appendChild(new Comment("[jshtml::placeholder]"));
     const [_a,_b] = n.nodeType === n.DOCUMENT_FRAGMENT_NODE
         ? [n.firstChild!, n.lastChild!]
         : [n,n];
@@ -214,15 +577,29 @@ const update_range = ([a,b]:[Node,Node]) => (v:JSHTMLNodeSource) : [Node,Node] =
 };
 
 /**
- * HTML要素の属性値を更新する
+ * 属性名の接頭辞から、属性の名前空間を返す。接頭辞のない属性はnullを返す。
+ * @param n 
+ * @returns 
+ */
+const attr_namespace = (n:string) : string|null =>
+    n === "xmlns" ? ATTR_NS.xmlns : /:/.test(n) ? ATTR_NS[n.split(":")[0]] ?? null : null;
+
+/**
+ * 要素の属性値を更新する
  * @param e 
  * @returns 
  */
-const update_attr = (e:HTMLElement) => ([n,v]:T_ATTRSET) => {
-    if(v == null)
-        e.removeAttribute(n);
+const update_attr = (e:JSHTMLElement) => ([n,v]:T_ATTRSET) => {
+    const ns = attr_namespace(n);
+    // 属性は初期値にしか反映されないため、入力中の部品にも届くよう値を直接書き込む
+    if(n === "value" && n in e)
+        (e as FormControl).value = v != null ? v + "" : "";
+    if(n === "checked" && n in e)
+        (e as HTMLInputElement).checked = v != null && v !== false;
+    if(v == null || (n === "checked" && v === false))
+        ns ? e.removeAttributeNS(ns, n.replace(/^[^:]*:/, "")) : e.removeAttribute(n);
     else if(!(v instanceof Object))
-        e.setAttribute(n, v + "");
+        ns ? e.setAttributeNS(ns, n, v + "") : e.setAttribute(n, v + "");
     else if(n === "classList")
         gen_className_setter(v)(e);
     else if(n === "dataset")
@@ -238,16 +615,25 @@ const update_attr = (e:HTMLElement) => ([n,v]:T_ATTRSET) => {
 
 /**
  * jshtml仕様に沿ったDOMを生成して返し、ストリーム値は生成結果DOMにバインディングする。
+ * セルは現在の値で生成した後、更新をバインディングする。セルでないPropは一度だけ評価する。
  * @param s 
  * @returns 
  */
-function jshtml<T extends string>(s:JSHTMLElementSource<T|"$">): T extends HTMLTag ? HTMLElementTagNameMap[T] : HTMLElement;
+function jshtml<T extends string>(s:JSHTMLElementSource<T|"$">): JSHTMLElementOf<T>;
 function jshtml<V>(s:Prop<V>): ReturnType<typeof jshtml>;
 function jshtml<V>(s:Stream<V>): Comment;
 function jshtml(s:JSHTMLTextSource): Text;
 function jshtml(s:JSHTMLFragmentSource): DocumentFragment;
-function jshtml<T extends string>(s:JSHTMLNodeSource|Prop<JSHTMLNodeSource>|Stream<JSHTMLNodeSource>): T extends HTMLTag ? HTMLElementTagNameMap[T] : HTMLElement | DocumentFragment | Text | Comment;
+function jshtml<N extends Node>(s:N): N;
+function jshtml<T extends string>(s:JSHTMLNodeSource|Prop<JSHTMLNodeSource>|Stream<JSHTMLNodeSource>): JSHTMLElementOf<T> | DocumentFragment | Text | Comment;
 function jshtml<T extends string>(s:JSHTMLNodeSource|Prop<JSHTMLNodeSource>|Stream<JSHTMLNodeSource>) {
+    if(isCell<JSHTMLNodeSource>(s)) {
+        const df = document.createDocumentFragment();
+        const n = new Comment("[jshtml::placeholder]");
+        df.append(n);
+        bind_node_stream(s.updates())(...scope(() => update_range([n,n])(s.sample())));
+        return df;
+    }
     if(typeof s === "function")
         return jshtml<T>(s());
     if(Array.isArray(s)) {
@@ -255,6 +641,8 @@ function jshtml<T extends string>(s:JSHTMLNodeSource|Prop<JSHTMLNodeSource>|Stre
         df.append(...s.map(jshtml));
         return df;
     }
+    if(s instanceof Node)
+        return s;
     if(s != null && typeof s === "object") {
         if(!isStream<JSHTMLNodeSource>(s)) return element(s);
         const n = new Comment("[jshtml::placeholder]");
@@ -264,6 +652,159 @@ function jshtml<T extends string>(s:JSHTMLNodeSource|Prop<JSHTMLNodeSource>|Stre
     return new Text(s+"");
 }
 
+/**
+ * eachで描画した一行分のDOM範囲。
+ */
+type EachRow = {
+    start: Comment
+    end: Comment
+    dispose: ()=>void
+};
+
+/**
+ * DOM範囲に含まれるノードを、順に取り出す
+ * @param param0 
+ * @returns 
+ */
+const range_nodes = ([a,b]:[Node,Node]) : Node[] => {
+    const n: Node[] = [a];
+    for(let c: Node | null = a; c !== b && (c = c.nextSibling);)
+        n.push(c);
+    return n;
+}
+
+/**
+ * 最長増加部分列に含まれる添字を返す。負の値は部分列に含めない。
+ * @param a 
+ * @returns 
+ */
+const longest_increasing = (a:number[]) : Set<number> => {
+    const tails: number[] = [];
+    const prev: number[] = [];
+    a.forEach((v,i) => {
+        if(v < 0) return;
+        let lo = 0, hi = tails.length;
+        while(lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if(a[tails[mid]] < v) lo = mid + 1;
+            else hi = mid;
+        }
+        prev[i] = lo > 0 ? tails[lo - 1] : -1;
+        tails[lo] = i;
+    });
+    const r = new Set<number>();
+    for(let i = tails.length ? tails[tails.length - 1] : -1; i >= 0; i = prev[i])
+        r.add(i);
+    return r;
+}
+
+/**
+ * 配列の各要素をキーごとのDOM範囲として描画し、配列が流れるたびにキーで突き合わせて更新する。
+ * 新しいキーの行は挿入、なくなったキーの行は削除し、残った行は既存のノードを再利用して最小限の移動で並べ替える。
+ * 各行には、その行の要素を値に持つセルが渡される。
+ * DOMはjshtmlで評価されるまで生成しないため、renderToStringとhydrateにもそのまま渡せる。
+ * @param s 配列のストリーム。セルを渡した場合は現在の値で最初の描画を行う。
+ * @param key 要素からキーを取り出す関数
+ * @param render 行を描画する関数
+ * @returns 
+ */
+const each = <T,K>(s:Stream<T[]>|Cell<T[]>, key:(v:T)=>K, render:(item:Cell<T>, key:K)=>JSHTMLNodeSource) : JSHTMLDeferredSource => {
+    const entries = (v:T[]) => new Map(v.map((v) => [key(v), v] as const));
+    const initial = () => isCell<T[]>(s) ? entries(s.sample()) : new Map<K,T>();
+    const index = () => pipe(isCell<T[]>(s) ? s.updates() : s)(entries);
+
+    // 行の要素を値に持つセルを作って行を描画し、その結果と行のバインディングを解除する関数を返す
+    const draw = <R>(index:Stream<Map<K,T>>, k:K, v:T, f:(s:JSHTMLNodeSource)=>R) : [R, ()=>void] =>
+        untracked(() => scope(() => f(render(hold(pipe(filter(index)((m) => m.has(k)))((m) => m.get(k) as T))(v), k))));
+
+    // 描画済みの範囲と行に、配列の更新をバインディングする
+    const mount = (index:Stream<Map<K,T>>, [start,end]:[Comment,Comment], rows:Map<K,EachRow>) => {
+        let order = [...rows.keys()];
+        const create = (k:K, v:T) : EachRow => {
+            const [n, dispose] = draw(index, k, v, jshtml);
+            const row = { start: new Comment("[jshtml::row]"), end: new Comment("[jshtml::row]"), dispose };
+            const f = document.createDocumentFragment();
+            f.append(row.start, n, row.end);
+            rows.set(k, row);
+            return row;
+        };
+
+        const reconcile = (m:Map<K,T>) => {
+            const parent = end.parentNode!;
+            rows.forEach((row, k) => {
+                if(m.has(k)) return;
+                range_nodes([row.start,row.end]).forEach((n) => parent.removeChild(n));
+                row.dispose();
+                rows.delete(k);
+            });
+            const keys = [...m.keys()];
+            const prev = new Map(order.map((k,i) => [k,i]));
+            const stay = longest_increasing(keys.map((k) => prev.get(k) ?? -1));
+            keys.reduceRight<Node>((ref, k, i) => {
+                const row = rows.get(k) ?? in_namespace(child_namespace(parent))(() => create(k, m.get(k)!));
+                if(!stay.has(i)) {
+                    const f = document.createDocumentFragment();
+                    f.append(...range_nodes([row.start,row.end]));
+                    parent.insertBefore(f, ref);
+                }
+                return row.start;
+            }, end);
+            order = keys;
+        };
+
+        const release = () => {
+            rows.forEach((row) => row.dispose());
+            rows.clear();
+        };
+        // 範囲が親ノードから取り除かれている間は突き合わせず、次に流れた配列で描画する
+        listen(index)((m) => {
+            if(start.parentNode && start.parentNode === end.parentNode)
+                reconcile(m);
+        });
+        track(release);
+        return reconcile;
+    };
+
+    const source = deferred_source(
+        () => {
+            const range: [Comment,Comment] = [new Comment("[jshtml::each]"), new Comment("[jshtml::each]")];
+            const df = document.createDocumentFragment();
+            df.append(...range);
+            mount(index(), range, new Map())(initial());
+            return df;
+        },
+        () => {
+            const rows = [...initial()].map(([k,v]) => {
+                const [html, dispose] = draw(stream(), k, v, renderToString);
+                dispose();
+                return `<!--[jshtml::row]-->${html}<!--[jshtml::row]-->`;
+            });
+            return `<!--[jshtml::each]-->${rows.join("")}<!--[jshtml::each]-->`;
+        },
+        (p, n) => {
+            if(!is_marker(n, "each"))
+                return hydrate_mismatch(p, n, source);
+            const ix = index();
+            const rows = new Map<K,EachRow>();
+            let c = n.nextSibling;
+            initial().forEach((v, k) => {
+                if(!is_marker(c, "row"))
+                    throw new Error("hydration mismatch err: the row of each was not found");
+                const start = c;
+                const [end, dispose] = draw(ix, k, v, (s) => hydrate_node(p, start.nextSibling, s));
+                if(!is_marker(end, "row"))
+                    throw new Error("hydration mismatch err: the end of the row was not found");
+                rows.set(k, { start, end, dispose });
+                c = end.nextSibling;
+            });
+            if(!is_marker(c, "each"))
+                throw new Error("hydration mismatch err: the end of each was not found");
+            mount(ix, [n, c], rows);
+            return c.nextSibling;
+        });
+    return source;
+}
+
 /**
  * MutationObserverを介して、DOMの変異をイベントストリームに接続する。
  * @param n 
@@ -288,4 +829,503 @@ const events = (target:EventTarget) => <T extends string, E = T extends keyof HT
     return [s, target.removeEventListener.bind(target,t,l,false)];
 }
 
-export {jshtml, mutations, events};
+/**
+ * 子を持たない要素のタグ名。
+ */
+const VOID_TAGS = new Set(["area","base","br","col","embed","hr","img","input","link","meta","source","track","wbr"]);
+
+/**
+ * HTMLの特殊文字を文字参照に置き換える
+ * @param s 
+ * @returns 
+ */
+const escape_html = (s:string) =>
+    s.replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]!);
+
+/**
+ * キャメルケースのプロパティ名を、ハイフン区切りの名前に変換する
+ * @param k 
+ * @returns 
+ */
+const kebab = (k:string) => k.replace(/[A-Z]/g, (c) => "-" + c.toLowerCase());
+
+/**
+ * 属性の組をHTMLの属性文字列に変換する。セルは現在の値を用い、ストリームの値は省く。
+ * textareaのvalueは内容として返す。
+ * @param tag 
+ * @param attrs 
+ * @returns 属性文字列と、要素の内容を置き換える文字列の組
+ */
+const render_attrs = (tag:string, attrs:JSHTMLAttributeMapSource) : [string, string?] => {
+    const r: string[] = [];
+    let content: string | undefined;
+    const attr = (k:string, v:unknown) => r.push(` ${k}="${escape_html(v + "")}"`);
+    Object.entries(attrs).forEach(([k,v]) => {
+        if(k === "model") {
+            const m = (v as V_MODEL)[0].sample();
+            if(tag === "textarea")
+                content = m + "";
+            else if(sample_live(attrs.type) === "radio")
+                m === sample_live(attrs.value) && attr("checked", "");
+            else if(typeof m === "boolean")
+                m && attr("checked", "");
+            else if(!Array.isArray(m))
+                attr("value", m);
+            return;
+        }
+        if(/^on/.test(k) && typeof v !== "string")
+            return;
+        const x = sample_live(v as V_LIVE<JSHTMLAttrSource>);
+        if(x == null || (k === "checked" && x === false))
+            return;
+        if(k === "value" && tag === "textarea")
+            content = x + "";
+        else if(k === "classList")
+            attr("class", Array.isArray(x) ? x.filter(Boolean).join(" ")
+                : typeof x === "object" ? Object.keys(x).filter((k) => sample_live((x as V_DATASET)[k])).join(" ")
+                : x);
+        else if(k === "dataset")
+            Object.entries(x as V_DATASET).forEach(([k,v]) => {
+                const _v = sample_live(v);
+                if(!isStream(v)) attr("data-" + kebab(k), _v != null ? _v : "");
+            });
+        else if(k === "style")
+            attr("style", Object.entries(x as V_STYLE)
+                .map(([k,v]) => [kebab(k), sample_live(v)])
+                .filter(([,v]) => v != null && v !== "")
+                .map(([k,v]) => `${k}: ${v};`).join(" "));
+        else
+            attr(k, x);
+    });
+    return [r.join(""), content];
+}
+
+/**
+ * jshtml仕様のソースをHTML文字列に変換する。DOMを必要としないため、サーバー側での描画に用いる。
+ * セルは現在の値を描画してマーカーのコメントで囲み、ストリームはプレースホルダーのコメントとして出力する。
+ * eachとcomponentは、DOMを生成せずに現在の値で描画する。
+ * 出力したHTMLはhydrateで同じソースと結びつけることができる。
+ * @param s 
+ * @returns 
+ */
+const renderToString = (s:JSHTMLNodeSource|Prop<JSHTMLNodeSource>|Stream<JSHTMLNodeSource>) : string => {
+    if(isCell<JSHTMLNodeSource>(s))
+        return `<!--[jshtml::cell]-->${renderToString(s.sample())}<!--[jshtml::/cell]-->`;
+    if(is_deferred(s))
+        return s[JSHTML_SERIALIZE]();
+    if(typeof s === "function")
+        return renderToString(s());
+    if(Array.isArray(s))
+        return s.map(renderToString).join("");
+    if(typeof Node !== "undefined" && s instanceof Node)
+        return s instanceof Element ? s.outerHTML
+            : s instanceof Text ? escape_html(s.data)
+            : Array.from(s.childNodes, renderToString).join("");
+    if(s != null && typeof s === "object") {
+        if(isStream(s))
+            return "<!--[jshtml::placeholder]-->";
+        const [tag,children,attrs] = extractElementSource(s as JSHTMLElementSource<string>);
+        const [a, content] = attrs ? render_attrs(tag, attrs) : [""];
+        return VOID_TAGS.has(tag)
+            ? `<${tag}${a}>`
+            : `<${tag}${a}>${content != null ? escape_html(content) : renderToString(children)}</${tag}>`;
+    }
+    return escape_html(s + "");
+}
+
+/**
+ * マーカーのコメントかを判定する
+ * @param n 
+ * @param m 
+ * @returns 
+ */
+const is_marker = (n:Node|null, m:string) : n is Comment =>
+    n != null && n.nodeType === n.COMMENT_NODE && (n as Comment).data === `[jshtml::${m}]`;
+
+/**
+ * ソースと一致しない既存のノードを、新たに生成したDOMで置き換える
+ * @param p 
+ * @param n 
+ * @param s 
+ * @returns 置き換えたノードの次のノード
+ */
+const hydrate_mismatch = (p:Node, n:Node|null, s:JSHTMLNodeSource|Prop<JSHTMLNodeSource>|Stream<JSHTMLNodeSource>) : Node|null => {
+    console.error("hydration mismatch err: re-rendered the node");
+    const next = n && n.nextSibling;
+    p.insertBefore(in_namespace(child_namespace(p))(() => jshtml(s)), n);
+    if(n) p.removeChild(n);
+    return next;
+}
+
+/**
+ * 既存のノードをソースと突き合わせ、バインディングを行う
+ * @param p 親ノード
+ * @param n 突き合わせを始めるノード
+ * @param s 
+ * @returns 突き合わせたノードの次のノード
+ */
+const hydrate_node = (p:Node, n:Node|null, s:JSHTMLNodeSource|Prop<JSHTMLNodeSource>|Stream<JSHTMLNodeSource>) : Node|null => {
+    if(isCell<JSHTMLNodeSource>(s)) {
+        if(!is_marker(n, "cell"))
+            return hydrate_mismatch(p, n, s);
+        const [end, dispose] = scope(() => hydrate_node(p, n.nextSibling, s.sample()));
+        if(!is_marker(end, "/cell"))
+            throw new Error("hydration mismatch err: the end of the cell was not found");
+        bind_node_stream(s.updates())([n,end], dispose);
+        return end.nextSibling;
+    }
+    if(is_deferred(s))
+        return s[JSHTML_HYDRATE](p, n);
+    if(typeof s === "function")
+        return hydrate_node(p, n, s());
+    if(Array.isArray(s))
+        return s.reduce<Node|null>((n,s) => hydrate_node(p, n, s), n);
+    if(s instanceof Node) {
+        const next = n && n.nextSibling;
+        n ? p.replaceChild(s, n) : p.appendChild(s);
+        return next;
+    }
+    if(s != null && typeof s === "object") {
+        if(isStream<JSHTMLNodeSource>(s)) {
+            if(!is_marker(n, "placeholder"))
+                return hydrate_mismatch(p, n, s);
+            bind_node_stream(s)([n,n]);
+            return n.nextSibling;
+        }
+        const [tag,children,attrs] = extractElementSource(s as JSHTMLElementSource<string>);
+        if(!(n instanceof Element) || n.localName !== tag)
+            return hydrate_mismatch(p, n, s);
+        if(!VOID_TAGS.has(tag) && !(attrs && (tag === "textarea") && ("value" in attrs || "model" in attrs)))
+            hydrate_node(n, n.firstChild, children);
+        if(attrs)
+            bind_attrs(n as JSHTMLElement)(attrs);
+        return n.nextSibling;
+    }
+    // 隣り合うテキストはHTML上で一つになるため、ソースの長さで分割する
+    const t = s + "";
+    if(!t.length)
+        return p.insertBefore(new Text(), n).nextSibling;
+    if(!(n instanceof Text) || !n.data.startsWith(t))
+        return hydrate_mismatch(p, n, s);
+    if(n.data.length > t.length)
+        n.splitText(t.length);
+    return n.nextSibling;
+}
+
+/**
+ * renderToStringで描画済みのDOMを、新たなノードを生成せずにソースと結びつける。
+ * ルート要素の子をソースと突き合わせ、jshtmlが行うのと同じストリームのバインディングとイベントリスナーの設定を行う。
+ * 一致しないノードは警告を出したうえで新たに生成し直す。
+ * @param root 
+ * @param s 
+ * @returns 
+ */
+const hydrate = <E extends Element>(root:E, s:JSHTMLNodeSource|Prop<JSHTMLNodeSource>|Stream<JSHTMLNodeSource>) : E => {
+    const rest = hydrate_node(root, root.firstChild, s);
+    for(let n = rest; n;) {
+        const next: Node | null = n.nextSibling;
+        root.removeChild(n);
+        n = next;
+    }
+    return root;
+}
+
+/**
+ * componentの描画関数に渡される、部品の接続状態のストリーム。
+ */
+export type ComponentLifecycle = {
+    /**
+     * 部品が文書に接続されたときに、接続先の親ノードを流すストリーム
+     */
+    mounted: Stream<Node>
+    /**
+     * 部品が文書から切り離されたときに流れるストリーム
+     */
+    unmounted: Stream<void>
+};
+
+/**
+ * componentで生成した部品。
+ */
+export type ComponentInstance = ComponentLifecycle & {
+    /**
+     * 部品のDOMを生成するソース。jshtml、renderToString、hydrateに渡す。DOMを生成できるのは一度だけ
+     */
+    node: JSHTMLDeferredSource
+    /**
+     * 部品の監視とバインディングをすべて解除する
+     */
+    dispose: ()=>void
+};
+
+/**
+ * 文書への接続を監視している部品とバインディングの、接続を調べる関数。
+ * すべての部品とバインディングで一つのMutationObserverを共有し、文書が変異するたびに登録された接続を調べる。
+ */
+const connections = {
+    observer: null as MutationObserver | null,
+    checks: new Set<()=>void>()
+};
+
+/**
+ * 接続を調べる関数を登録し、登録を解除する関数を返す。最後の登録が解除されると監視を止める。
+ * @param check 
+ * @returns 
+ */
+const observe_connection = (check:()=>void) : (()=>void) => {
+    connections.checks.add(check);
+    if(!connections.observer) {
+        // 接続を調べる間に描画された部品は、その描画による変異で調べる
+        connections.observer = new MutationObserver(() => [...connections.checks].forEach((f) => f()));
+        connections.observer.observe(document, { childList: true, subtree: true });
+    }
+    return () => {
+        connections.checks.delete(check);
+        if(connections.checks.size)
+            return;
+        connections.observer?.disconnect();
+        connections.observer = null;
+    };
+}
+
+/**
+ * scopeの外で行うバインディングを、ノードが文書から切り離されたときに解除する。
+ * 一度文書への接続を確認したノードだけを切り離されたものとして扱うため、文書に挿入する前に流れた値でも解除しない。
+ * scope内のバインディングは、そのscopeの解除に任せる。
+ * @param n バインディング先のノードを返す関数
+ * @returns 
+ */
+const release_detached = (n:()=>Node) => (bind:()=>void) => {
+    if(scope.current)
+        return bind();
+    let seen = false;
+    const [, dispose] = scope(bind);
+    const stop = observe_connection(() => {
+        if(n().isConnected)
+            seen = true;
+        else if(seen) {
+            stop();
+            dispose();
+        }
+    });
+}
+
+/**
+ * 描画関数から部品を生成する関数を作る。
+ * 部品の描画中に行ったバインディングは、部品が文書から切り離されたときにまとめて解除し、再び接続されたときに描画し直して復元する。
+ * 文書への接続は、DOMを生成してから、すべての部品で共有するMutationObserverで監視する。renderToStringでは接続を伝えずに一度だけ描画し、描画中のバインディングはすぐに解除する。
+ * @param render 
+ * @returns 
+ */
+const component = <P>(render:(props:P, life:ComponentLifecycle)=>JSHTMLNodeSource) => (props:P) : ComponentInstance => {
+    let state: "created"|"mounted"|"unmounted" = "created";
+    let used = false;
+    let release = () => {};
+    let stop = () => {};
+    const [life, dispose] = scope(() : ComponentLifecycle => {
+        const life: ComponentLifecycle = {
+            mounted: stream<Node>(),
+            unmounted: stream<void>()
+        };
+        listen(life.unmounted)(() => release());
+        track(() => stop());
+        track(() => release());
+        return life;
+    });
+    // 描画中に行ったバインディングを記録しながら、描画関数の結果を変換する
+    const draw = <R>(f:(s:JSHTMLNodeSource)=>R) : R => {
+        release();
+        const [r, d] = untracked(() => scope(() => f(render(props, life))));
+        release = d;
+        return r;
+    };
+    const claim = () => {
+        if(used)
+            throw new Error("component cannot create the DOM of one instance twice");
+        used = true;
+    };
+    // 切り離されていた部品は、接続を伝える前に描画し直す
+    const observe = ([start,end]:[Comment,Comment]) => {
+        stop = observe_connection(() => {
+            const c = start.isConnected;
+            if(c === (state === "mounted"))
+                return;
+            if(c && state === "unmounted") {
+                range_nodes([start,end]).slice(1,-1).forEach((n) => n.parentNode!.removeChild(n));
+                end.parentNode!.insertBefore(in_namespace(child_namespace(end.parentNode))(() => draw((s) => jshtml(s))), end);
+            }
+            state = c ? "mounted" : "unmounted";
+            if(c)
+                drip(life.mounted)(start.parentNode!);
+            else
+                drip(life.unmounted)(undefined);
+        });
+    };
+    const node = deferred_source(
+        () => {
+            claim();
+            const range: [Comment,Comment] = [new Comment("[jshtml::component]"), new Comment("[jshtml::/component]")];
+            const df = document.createDocumentFragment();
+            df.append(range[0], draw((s) => jshtml(s)), range[1]);
+            observe(range);
+            return df;
+        },
+        () => {
+            const html = draw(renderToString);
+            release();
+            return `<!--[jshtml::component]-->${html}<!--[jshtml::/component]-->`;
+        },
+        (p, n) => {
+            if(!is_marker(n, "component"))
+                return hydrate_mismatch(p, n, node);
+            claim();
+            const end = draw((s) => hydrate_node(p, n.nextSibling, s));
+            if(!is_marker(end, "/component"))
+                throw new Error("hydration mismatch err: the end of the component was not found");
+            observe([n, end]);
+            return end.nextSibling;
+        });
+    return { ...life, node, dispose };
+}
+
+/**
+ * defineElementの描画関数に渡される、要素の状態と操作。
+ */
+export type ElementContext<A extends string, P> = {
+    /**
+     * 定義した要素
+     */
+    host: HTMLElement & P
+    /**
+     * 描画先。shadowを指定しなければshadow root、falseなら要素自身
+     */
+    root: ShadowRoot | HTMLElement
+    /**
+     * observedAttributesの各属性値のセル
+     */
+    attrs: { [key in A]: Cell<string|null> }
+    /**
+     * propertiesで宣言した各プロパティ値のセル
+     */
+    props: { [key in keyof P]: Cell<P[key]> }
+    /**
+     * 受け取った値をdetailに持つCustomEventを要素から送出する関数を返す
+     */
+    emit: <D>(type:string, init?:CustomEventInit<D>) => (detail:D) => void
+    /**
+     * 名前の一致するslotの割り当てが変わるたびに、割り当てられたノードを流すストリームを返す。名前を省くと既定のslotを対象とする。
+     */
+    slotchange: (name?:string) => Stream<Node[]>
+};
+
+/**
+ * defineElementに渡す要素の定義。
+ */
+export type ElementDefinition<A extends string, P> = {
+    /**
+     * 監視する属性名
+     */
+    observedAttributes?: A[]
+    /**
+     * 宣言するプロパティと、その初期値
+     */
+    properties?: P
+    /**
+     * shadow rootの設定。falseなら要素自身に描画する
+     */
+    shadow?: ShadowRootInit | false
+    /**
+     * 要素が文書に接続されるたびに呼ばれる描画関数
+     */
+    render: (ctx:ElementContext<A,P>) => JSHTMLNodeSource
+};
+
+/**
+ * 属性とプロパティをストリームとして扱うカスタム要素を定義する。
+ * 要素が文書に接続されるとshadow rootか要素自身にjshtmlで描画し、切り離されると描画したDOMとバインディングをすべて解除する。
+ * 属性とプロパティの変更はセルの更新として描画関数に届く。
+ * @param tag 
+ * @param def 
+ * @returns 定義した要素のクラス
+ */
+const defineElement = <A extends string = never, P extends object = {}>(tag:string, def:ElementDefinition<A,P>) : { new(): HTMLElement & P } => {
+    const { observedAttributes = [], properties = {} as P, shadow = { mode: "open" }, render } = def;
+    const keys = Object.keys(properties) as (keyof P & string)[];
+    type State = {
+        attrs: Map<string, Stream<string|null>>
+        props: Map<string, Stream<unknown>>
+        ctx: ElementContext<A,P>
+        dispose: ()=>void
+    };
+    class JSHTMLDefinedElement extends HTMLElement {
+        static observedAttributes = observedAttributes;
+        static {
+            keys.forEach((k) => Object.defineProperty(this.prototype, k, {
+                get(this:JSHTMLDefinedElement) { return this.#state.ctx.props[k](); },
+                set(this:JSHTMLDefinedElement, v:unknown) {
+                    drip(this.#state.props.get(k)!)(v);
+                },
+                configurable: true,
+                enumerable: true
+            }));
+        }
+        #state: State;
+        constructor() {
+            super();
+            const host = this as unknown as HTMLElement & P;
+            const root = shadow ? this.attachShadow(shadow) : this;
+            const attrs = new Map(observedAttributes.map((a) => [a as string, stream<string|null>()]));
+            const props = new Map(keys.map((k) => [k as string, stream<unknown>()]));
+            const ctx = untracked(() : ElementContext<A,P> => ({
+                host,
+                root,
+                attrs: Object.fromEntries(observedAttributes.map((a) => [a, hold(attrs.get(a)!)(this.getAttribute(a))])) as ElementContext<A,P>["attrs"],
+                props: Object.fromEntries(keys.map((k) => [k, hold(props.get(k)!)(properties[k])])) as ElementContext<A,P>["props"],
+                emit: (type, init) => (detail) => {
+                    this.dispatchEvent(new CustomEvent(type, { bubbles: true, composed: true, ...init, detail }));
+                },
+                slotchange: (name = "") => {
+                    const [s, remove] = events(root)("slotchange");
+                    track(remove);
+                    return pipe(filter(s)((e) => e.target instanceof HTMLSlotElement && e.target.name === name))(
+                        (e) => (e.target as HTMLSlotElement).assignedNodes({ flatten: true }));
+                }
+            }));
+            this.#state = { attrs, props, ctx, dispose: () => {} };
+            // 定義前に設定されたプロパティを、ストリームに流し直す
+            keys.forEach((k) => {
+                if(!Object.prototype.hasOwnProperty.call(this, k)) return;
+                const v = host[k];
+                delete host[k];
+                host[k] = v;
+            });
+        }
+        attributeChangedCallback(name:string, old:string|null, v:string|null) {
+            const s = this.#state.attrs.get(name);
+            if(s && old !== v)
+                drip(s)(v);
+        }
+        connectedCallback() {
+            const state = this.#state;
+            const root = state.ctx.root;
+            state.dispose();
+            const start = new Comment("[jshtml::element]");
+            const end = new Comment("[jshtml::/element]");
+            const [n, dispose] = untracked(() => scope(() => jshtml(render(state.ctx))));
+            root.append(start, n, end);
+            state.dispose = () => {
+                state.dispose = () => {};
+                dispose();
+                if(start.parentNode === root)
+                    range_nodes([start,end]).forEach((n) => root.removeChild(n));
+            };
+        }
+        disconnectedCallback() {
+            this.#state.dispose();
+        }
+    }
+    customElements.define(tag, JSHTMLDefinedElement);
+    return JSHTMLDefinedElement as unknown as { new(): HTMLElement & P };
+}
+
+export {jshtml, each, component, defineElement, renderToString, hydrate, mutations, events};
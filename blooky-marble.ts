@@ -0,0 +1,140 @@
+/**
+ * blooky-marble.ts
+ * マーブル図を用いてストリームを検証するための補助ライブラリ。
+ * moments.schedulerにvirtualSchedulerを設定し、時刻を手動で進めながら用いる。
+ */
+import { Stream, stream, drip, listen, clear, moments } from "./blooky";
+
+/**
+ * マーブル図の一文字が表す出来事。
+ */
+type MarbleFrame<A> = {
+    /**
+     * 開始からのフレーム数
+     */
+    frame: number
+    /**
+     * 同じフレームで順に発生する値
+     */
+    values: A[]
+    /**
+     * ストリームの終了
+     */
+    complete: boolean
+};
+
+/**
+ * 観測された値と、観測を始めてからの経過時間。
+ */
+export type MarbleRecord<A> = {
+    time: number
+    value: A
+};
+
+/**
+ * マーブル図の文字と値の対応表。
+ */
+export type MarbleValues<A> = { [key:string]: A };
+
+/**
+ * マーブル図を出来事の一覧に変換する。
+ * '-'は1フレームの経過、それ以外の文字は値の発生、'(ab)'は同じフレームでの連続した発生、'|'はストリームの終了を表す。
+ * 括弧でまとめた値は1フレームとして数え、空白は無視する。
+ * @param marbles
+ * @param values
+ * @returns
+ */
+const parseMarbles = <A>(marbles:string, values:MarbleValues<A> = {}) : MarbleFrame<A>[] => {
+    const frames: MarbleFrame<A>[] = [];
+    let frame = 0;
+    let group: A[] | null = null;
+    for (const c of marbles.replace(/\s/g, "")) {
+        if (c === "(") {
+            group = [];
+        } else if (c === ")") {
+            frames.push({ frame: frame++, values: group ?? [], complete: false });
+            group = null;
+        } else if (group) {
+            group.push(c in values ? values[c] : c as A);
+        } else if (c === "|") {
+            frames.push({ frame: frame++, values: [], complete: true });
+        } else if (c !== "-") {
+            frames.push({ frame: frame++, values: [c in values ? values[c] : c as A], complete: false });
+        } else {
+            frame++;
+        }
+    }
+    return frames;
+}
+
+/**
+ * マーブル図の通りに値を流すストリームを作る。値はmoments.schedulerのタイマーで流される。
+ * @param marbles
+ * @param values
+ * @param frame 1フレームのミリ秒
+ * @returns
+ */
+const hot = <A = string>(marbles:string, values?:MarbleValues<A>, frame:number = 1) : Stream<A> => {
+    const s = stream<A>();
+    const {scheduler} = moments;
+    parseMarbles(marbles, values).forEach(({frame: n, values, complete}) => {
+        scheduler.setTimeout(() => complete
+            ? clear(s)
+            : values.forEach((v) => drip(s)(v)), n * frame);
+    });
+    return s;
+}
+
+/**
+ * ストリームに流れた値を、観測を始めてからの経過時間とともに記録する。
+ * @param s
+ * @returns
+ */
+const observe = <A>(s:Stream<A>) : [MarbleRecord<A>[], ()=>void] => {
+    const {scheduler} = moments;
+    const started = scheduler.now();
+    const records: MarbleRecord<A>[] = [];
+    return [records, listen(s)((value) => records.push({ time: scheduler.now() - started, value }))];
+}
+
+/**
+ * 記録した値をマーブル図に変換する。対応表にない値は文字列化して用いる。
+ * @param records
+ * @param values
+ * @param frame 1フレームのミリ秒
+ * @returns
+ */
+const toMarbles = <A>(records:MarbleRecord<A>[], values:MarbleValues<A> = {}, frame:number = 1) : string => {
+    const name = (v:A) => Object.keys(values).find((k) => JSON.stringify(values[k]) === JSON.stringify(v)) ?? String(v);
+    const frames = new Map<number,A[]>();
+    records.forEach(({time, value}) => {
+        const n = Math.round(time / frame);
+        frames.set(n, [...frames.get(n) ?? [], value]);
+    });
+    const last = Math.max(-1, ...frames.keys());
+    return Array.from({ length: last + 1 }, (_,n) => {
+        const v = frames.get(n) ?? [];
+        return v.length > 1
+            ? `(${v.map(name).join("")})`
+            : v.length ? name(v[0]) : "-";
+    }).join("");
+}
+
+/**
+ * 記録した値がマーブル図と一致するかを検証し、一致しなければ例外を送出する。
+ * 終了を表す'|'と末尾の'-'は比較に用いない。
+ * @param records
+ * @param expected
+ * @param values
+ * @param frame 1フレームのミリ秒
+ */
+const assertMarbles = <A>(records:MarbleRecord<A>[], expected:string, values?:MarbleValues<A>, frame:number = 1) => {
+    const normalize = (m:string) => m.replace(/[\s|]/g, "").replace(/-+$/, "");
+    const e = normalize(expected);
+    const a = normalize(toMarbles(records, values, frame));
+    if (e !== a) {
+        throw new Error(`marbles mismatch: expected "${e}" but observed "${a}"`);
+    }
+}
+
+export {parseMarbles, hot, observe, toMarbles, assertMarbles};
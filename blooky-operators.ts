@@ -0,0 +1,169 @@
+/**
+ * blooky-operators.ts
+ * pipe、filter、mergeを組み合わせて作る、よく用いるストリームの演算子。
+ * いずれも実行中のscopeに接続を記録し、countRefsとclearの対象になる。
+ * 数や直前の値などの状態は、セルに保持せず値が流れたトランザクションの確定時に更新するため、中断されたトランザクションの値は数えず、元のストリームを参照し続けることもない。
+ */
+import { Stream, Prop, stream, pipe, filter, merge, drip, transaction, onSubscribe } from "./blooky";
+
+/**
+ * ストリームの組から、それぞれの値の型の組を取り出す。
+ */
+type StreamValues<T extends readonly Stream<any>[]> = { [K in keyof T]: T[K] extends Stream<infer V> ? V : never };
+
+/**
+ * 演算子の状態を、値が流れているトランザクションの確定時に更新する
+ * @param f
+ */
+const atCommit = (f:()=>void) => {
+    transaction.current!.commits.push(f);
+}
+
+/**
+ * 最初の一定数の値だけを流すストリームを作る
+ * @param s
+ * @returns
+ */
+const take = <A>(s:Stream<A>) => (n:number) : Stream<A> => {
+    let count = 0;
+    return filter<A>(s)(() => {
+        if (count >= n) return false;
+        atCommit(() => count++);
+        return true;
+    });
+}
+
+/**
+ * 最初の値だけを流すストリームを作る
+ * @param s
+ * @returns
+ */
+const once = <A>(s:Stream<A>) : Stream<A> => take(s)(1);
+
+/**
+ * 最初の一定数の値を捨て、それ以降の値を流すストリームを作る
+ * @param s
+ * @returns
+ */
+const skip = <A>(s:Stream<A>) => (n:number) : Stream<A> => {
+    let count = 0;
+    return filter<A>(s)(() => {
+        if (count >= n) return true;
+        atCommit(() => count++);
+        return false;
+    });
+}
+
+/**
+ * 別のストリームに値が流れるまで値を流すストリームを作る。
+ * 停止と同じトランザクションで発生した値は流さない。
+ * @param s
+ * @returns
+ */
+const takeUntil = <A>(s:Stream<A>) => (stop:Stream<any>) : Stream<A> => {
+    // 停止が含まれていれば、そちらを優先する
+    const m = merge([pipe(s)((v):[boolean,A?] => [false, v]), pipe(stop)(():[boolean,A?] => [true])])((a,b) => a[0] ? a : b);
+    let stopped = false;
+    return pipe(filter<[boolean,A?]>(m)(([v]) => {
+        if (v) atCommit(() => stopped = true);
+        return !(stopped || v);
+    }))(([,v]) => v as A);
+}
+
+/**
+ * 直前に流した値と等しい値を流さないストリームを作る
+ * @param s
+ * @returns
+ */
+const distinctUntilChanged = <A>(s:Stream<A>) => (eq:(a:A,b:A)=>boolean = (a,b) => a === b) : Stream<A> => {
+    let last: [A] | null = null;
+    return filter<A>(s)((v) => {
+        if (last && eq(last[0], v)) return false;
+        atCommit(() => last = [v]);
+        return true;
+    });
+}
+
+/**
+ * 値を受け取るたびに、累積した値を流すストリームを作る
+ * @param s
+ * @returns
+ */
+const scan = <A>(s:Stream<A>) => <S>(f:(v:A,s:S)=>S, seed:S) : Stream<S> => {
+    let acc = seed;
+    return pipe(s)((v) => {
+        const r = f(v, acc);
+        atCommit(() => acc = r);
+        return r;
+    });
+}
+
+/**
+ * 条件に合う値と合わない値の、二つのストリームに分ける
+ * @param s
+ * @returns
+ */
+const partition = <A>(s:Stream<A>) => {
+    function split<B extends A>(f:(v:A)=>v is B): [Stream<B>, Stream<Exclude<A,B>>];
+    function split(f:(v:A)=>boolean): [Stream<A>, Stream<A>];
+    function split<B extends A>(f:(v:A)=>boolean) : [Stream<B>, Stream<Exclude<A,B>>] | [Stream<A>, Stream<A>] {
+        return [filter(s)<B>(f), filter(s)<Exclude<A,B>>((v) => !f(v))];
+    }
+    return split;
+}
+
+/**
+ * 時変値が真の間だけ値を流すストリームを作る
+ * @param s
+ * @returns
+ */
+const gate = <A>(s:Stream<A>) => (c:Prop<boolean>) : Stream<A> => filter<A>(s)(() => c());
+
+/**
+ * 最初に値を一つ流し、以降はストリームの値を流すストリームを作る。
+ * 最初の値は、このストリームかpipeなどで連なる下流が最初にlistenかholdされた時点で流し、同じトランザクションで値があればそちらを優先する。
+ * @param s
+ * @returns
+ */
+const startWith = <A>(s:Stream<A>) => (v:A) : Stream<A> => {
+    const i = stream<A>();
+    const o = merge([s, i])((a) => a);
+    onSubscribe(o)(() => drip(i)(v));
+    return o;
+}
+
+/**
+ * 直前の値と現在の値の組を流すストリームを作る。最初の値では流さない。
+ * @param s
+ * @returns
+ */
+const pairwise = <A>(s:Stream<A>) : Stream<[A,A]> => {
+    let prev: [A] | null = null;
+    const pairs = pipe(s)((v) : [A,A] | null => {
+        const p = prev;
+        atCommit(() => prev = [v]);
+        return p && [p[0], v];
+    });
+    return filter(pairs)<[A,A]>((p) => p != null);
+}
+
+/**
+ * 複数のストリームの値を到着した順に組にして流すストリームを作る。
+ * 組になっていない値は、他のストリームに値が届くまで保持する。
+ * @param s
+ * @returns
+ */
+const zip = <T extends readonly Stream<any>[] | []>(s:T) : Stream<StreamValues<T>> => {
+    const m = merge(s.map((s:Stream<any>, i) => pipe(s)((v):[number,unknown][] => [[i,v]])))((a,b) => [...a,...b]);
+    let queues: unknown[][] = s.map(() => []);
+    const tuples = pipe(m)((u) : StreamValues<T> | null => {
+        const next = queues.map((q) => [...q]);
+        u.forEach(([i,v]) => next[i].push(v));
+        const t = next.every((q) => q.length) ? next.map((q) => q.shift()) as StreamValues<T> : null;
+        atCommit(() => queues = next);
+        return t;
+    });
+    return filter(tuples)<StreamValues<T>>((t) => t != null);
+}
+
+export {once, take, skip, takeUntil, distinctUntilChanged, scan, partition, gate, startWith, pairwise, zip};
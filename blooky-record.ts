@@ -0,0 +1,365 @@
+/**
+ * blooky-record.ts
+ * 起点のストリームへのdripを記録し、新しく組み立てたグラフで再生するための補助ライブラリ。
+ * 記録は時刻とトランザクションの区切りを含む、JSONに変換できる形式で保存する。
+ * 時刻にはmoments.schedulerを用いるため、virtualSchedulerを設定すれば仮想時間で再生できる。
+ */
+import { Stream, Cell, parrot, drip, listen, transaction, isCell, moments } from "./blooky";
+
+/**
+ * 記録した一回のdrip。
+ */
+export type RecordEntry = {
+    /**
+     * 記録を始めてからの経過時間
+     */
+    time: number
+    /**
+     * 同じトランザクションで行われたdripに共通する番号
+     */
+    group: number
+    /**
+     * 値を流し込んだストリームの名前
+     */
+    source: string
+    /**
+     * 変換済みの値
+     */
+    value: unknown
+};
+
+/**
+ * 保存できる形式の記録。
+ */
+export type Recording = {
+    version: 1
+    entries: RecordEntry[]
+};
+
+/**
+ * 値とJSONに変換できる値との相互の変換。
+ */
+export type Codec<A> = {
+    serialize(v:A): unknown
+    deserialize(v:unknown): A
+};
+
+/**
+ * 記録または再生するストリーム。値を変換する必要があれば、変換とともに指定する。
+ */
+export type RecordSource<A> = Stream<A> | {
+    stream: Stream<A>
+    codec: Codec<A>
+};
+
+/**
+ * 記録中のdrip。
+ */
+export type Recorder = {
+    /**
+     * これまでの記録を取得する
+     * @returns
+     */
+    recording(): Recording
+    /**
+     * 記録を終了する
+     */
+    stop(): void
+};
+
+/**
+ * 再生の設定。
+ */
+export type ReplayOptions = {
+    /**
+     * 再生の速さの倍率
+     */
+    speed?: number
+};
+
+/**
+ * 二つの記録が最初に食い違った位置。
+ */
+export type Divergence = {
+    index: number
+    expected?: RecordEntry
+    actual?: RecordEntry
+};
+
+/**
+ * 値を変換しない変換。
+ */
+const identity: Codec<any> = { serialize: parrot, deserialize: parrot };
+
+/**
+ * 名前ごとのストリームを、ストリームごとの名前と変換の対応表にする
+ * @param sources
+ * @returns
+ */
+const sourceMap = (sources:{ [name:string]: RecordSource<any> }) : Map<Stream<any>, [string, Codec<any>]> =>
+    new Map(Object.entries(sources).map(([name, s]) =>
+        "codec" in s ? [s.stream, [name, s.codec]] : [s, [name, identity]]));
+
+/**
+ * interceptで追加された関数の新しい順の一覧と、追加する前のdrip.input
+ */
+const interceptors = {
+    list: [] as ((s:Stream<any>, v:unknown, deferred:boolean)=>boolean)[],
+    prev: null as typeof drip.input
+};
+
+/**
+ * 追加された関数を新しいものから順に呼び、すべてがtrueを返した場合に追加する前のdrip.inputを呼ぶ
+ * @param s
+ * @param v
+ * @param deferred
+ * @returns
+ */
+const input = (s:Stream<any>, v:unknown, deferred:boolean) =>
+    interceptors.list.every((f) => f(s, v, deferred)) && interceptors.prev?.(s, v, deferred) !== false;
+
+/**
+ * drip.inputに関数を追加し、その関数を取り除く関数を返す。
+ * 取り除く順序は追加した順序によらず、すべて取り除くと追加する前のdrip.inputに戻す。
+ * @param f
+ * @returns
+ */
+const intercept = (f:(s:Stream<any>, v:unknown, deferred:boolean)=>boolean) => {
+    if (drip.input !== input) {
+        interceptors.prev = drip.input;
+        drip.input = input;
+    }
+    interceptors.list.unshift(f);
+    return () => {
+        const i = interceptors.list.indexOf(f);
+        if (i < 0) return;
+        interceptors.list.splice(i, 1);
+        if (interceptors.list.length || drip.input !== input) return;
+        drip.input = interceptors.prev;
+        interceptors.prev = null;
+    };
+}
+
+/**
+ * 指定したストリームへのdripを、値と時刻とともに記録する。
+ * オブザーバの呼び出し中に行われた後続のdripは、再生するグラフでも同じく行われるため記録しない。
+ * @param sources 名前とストリームの組
+ * @returns
+ */
+const record = (sources:{ [name:string]: RecordSource<any> }) : Recorder => {
+    const map = sourceMap(sources);
+    const {scheduler} = moments;
+    const started = scheduler.now();
+    const entries: RecordEntry[] = [];
+    let group = 0;
+    let last: unknown = null;
+    const stop = intercept((s, v, deferred) => {
+        const source = map.get(s);
+        if (!source || deferred) return true;
+        if (last !== transaction.current) {
+            last = transaction.current;
+            group++;
+        }
+        const [name, codec] = source;
+        entries.push({ time: scheduler.now() - started, group, source: name, value: codec.serialize(v) });
+        return true;
+    });
+    return {
+        recording: () => ({ version: 1, entries: entries.map((e) => ({ ...e })) }),
+        stop
+    };
+}
+
+/**
+ * 記録したdripを、新しく組み立てたグラフのストリームに記録と同じ間隔で流し込む。
+ * 再生中は、記録したストリームへの再生以外からのdripを流さない。
+ * 再生がすべて終わると解決するプロミスと、再生を中断する関数を返す。
+ * @param recording
+ * @param sources 記録と同じ名前とストリームの組
+ * @param options
+ * @returns
+ */
+const replay = (recording:Recording, sources:{ [name:string]: RecordSource<any> }, {speed = 1}:ReplayOptions = {}) : [Promise<void>, ()=>void] => {
+    const map = sourceMap(sources);
+    const streams = new Map([...map].map(([s, [name, codec]]) => [name, [s, codec] as const]));
+    const missing = recording.entries.find((e) => !streams.has(e.source));
+    if (missing) throw new Error(`replay has no stream named "${missing.source}"`);
+    const {scheduler} = moments;
+    const groups = new Map<number, RecordEntry[]>();
+    recording.entries.forEach((e) => groups.set(e.group, [...groups.get(e.group) ?? [], e]));
+    let replaying = false;
+    let rest = groups.size;
+    let resolve = () => {};
+    const done = new Promise<void>((r) => resolve = r);
+    const release = intercept((s, _, deferred) => replaying || deferred || !map.has(s));
+    const pids = [...groups.values()].map((entries) => scheduler.setTimeout(() => {
+        replaying = true;
+        try {
+            transaction(() => entries.forEach((e) => {
+                const [s, codec] = streams.get(e.source)!;
+                drip(s)(codec.deserialize(e.value));
+            }));
+        } finally {
+            replaying = false;
+            if (!--rest) stop();
+        }
+    }, entries[0].time / speed));
+    const stop = () => {
+        pids.forEach((pid) => scheduler.clearTimeout(pid));
+        release();
+        resolve();
+    };
+    if (!rest) stop();
+    return [done, stop];
+}
+
+/**
+ * 出力となるストリームやセルの値を、時刻とともに記録する。二つの実行の記録をcompareで比べる際に用いる。
+ * @param outputs 名前と、ストリームまたはセルの組
+ * @param serialize
+ * @returns
+ */
+const capture = (outputs:{ [name:string]: Stream<any> | Cell<any> }, serialize:(v:any)=>unknown = parrot) : [RecordEntry[], ()=>void] => {
+    const {scheduler} = moments;
+    const started = scheduler.now();
+    const entries: RecordEntry[] = [];
+    let group = 0;
+    let last: unknown = null;
+    const unlisten = Object.entries(outputs).map(([source, s]) => listen(isCell(s) ? s.updates() : s)((v) => {
+        if (last !== transaction.current) {
+            last = transaction.current;
+            group++;
+        }
+        entries.push({ time: scheduler.now() - started, group, source, value: serialize(v) });
+    }));
+    return [entries, () => unlisten.forEach((f) => f())];
+}
+
+/**
+ * 二つの記録を先頭から比べ、最初に食い違った位置を返す。食い違いがなければnullを返す。
+ * 値はJSONに変換して比べ、timeは比べない。
+ * @param expected
+ * @param actual
+ * @returns
+ */
+const compare = (expected:RecordEntry[], actual:RecordEntry[]) : Divergence | null => {
+    const key = (e?:RecordEntry) => e && JSON.stringify([e.source, e.value]);
+    for (let index = 0; index < Math.max(expected.length, actual.length); index++) {
+        if (key(expected[index]) !== key(actual[index])) return { index, expected: expected[index], actual: actual[index] };
+    }
+    return null;
+}
+
+/**
+ * 根となるノードからノードまでの、子ノードの位置の列を返す。根の外にあるノードではnullを返す。
+ * @param root
+ * @returns
+ */
+const pathOf = (root:Node) => (n:Node) : number[] | null => {
+    const path: number[] = [];
+    for (let c: Node | null = n; c !== root; c = c.parentNode) {
+        if (!c?.parentNode) return null;
+        path.unshift(Array.prototype.indexOf.call(c.parentNode.childNodes, c));
+    }
+    return path;
+}
+
+/**
+ * 子ノードの位置の列から、根となるノード以下のノードを取り出す
+ * @param root
+ * @returns
+ */
+const nodeAt = (root:Node) => (path:number[] | null) : Node | null =>
+    path && path.reduce<Node | null>((n, i) => n?.childNodes[i] ?? null, root);
+
+/**
+ * DOMイベントの変換。eventsのストリームを記録する際に用いる。
+ * 数値や文字列の属性と、ターゲットの位置と入力値を記録し、再生時には同じ位置のノードをターゲットとするイベントを作る。
+ * @param root
+ * @returns
+ */
+const eventCodec = <E extends Event>(root:Node = document) : Codec<E> => {
+    type SerializedEvent = {
+        constructor: string
+        type: string
+        props: { [key:string]: unknown }
+        target: number[] | null
+        currentTarget: number[] | null
+        value?: string
+        checked?: boolean
+    };
+    const path = pathOf(root);
+    const node = nodeAt(root);
+    return {
+        serialize: (e) => {
+            const props: { [key:string]: unknown } = {};
+            for (const k in e) {
+                const v = (e as unknown as { [key:string]: unknown })[k];
+                if (v === null || ["string", "number", "boolean"].includes(typeof v)) props[k] = v;
+            }
+            const t = e.target instanceof Node ? e.target : null;
+            const d: SerializedEvent = {
+                constructor: e.constructor.name,
+                type: e.type,
+                props,
+                target: t && path(t),
+                currentTarget: e.currentTarget instanceof Node ? path(e.currentTarget) : null
+            };
+            // 再生時にターゲットの状態を再現するため、入力値を記録する
+            if (t && "value" in t) d.value = String(t.value);
+            if (t && "checked" in t) d.checked = !!t.checked;
+            return d;
+        },
+        deserialize: (v) => {
+            const d = v as SerializedEvent;
+            const C = (globalThis as unknown as { [key:string]: unknown })[d.constructor];
+            const E = typeof C === "function" && (C === Event || C.prototype instanceof Event) ? C as typeof Event : Event;
+            const e = new E(d.type, d.props);
+            const t = node(d.target);
+            if (t && d.value !== undefined) (t as HTMLInputElement).value = d.value;
+            if (t && d.checked !== undefined) (t as HTMLInputElement).checked = d.checked;
+            Object.defineProperty(e, "target", { value: t });
+            Object.defineProperty(e, "currentTarget", { value: node(d.currentTarget) });
+            return e as E;
+        }
+    };
+}
+
+/**
+ * 変更記録の変換。mutationsのストリームを記録する際に用いる。
+ * 削除されたノードは再生するグラフに存在しないため、removedNodesは空になる。
+ * @param root
+ * @returns
+ */
+const mutationCodec = (root:Node = document) : Codec<MutationRecord[]> => {
+    type SerializedMutation = {
+        type: MutationRecordType
+        target: number[] | null
+        addedNodes: (number[] | null)[]
+        attributeName: string | null
+        attributeNamespace: string | null
+        oldValue: string | null
+    };
+    const path = pathOf(root);
+    const node = nodeAt(root);
+    return {
+        serialize: (records) => records.map((r): SerializedMutation => ({
+            type: r.type,
+            target: path(r.target),
+            addedNodes: [...r.addedNodes].map(path),
+            attributeName: r.attributeName,
+            attributeNamespace: r.attributeNamespace,
+            oldValue: r.oldValue
+        })),
+        deserialize: (v) => (v as SerializedMutation[]).map((r) => ({
+            ...r,
+            target: node(r.target),
+            addedNodes: r.addedNodes.map(node).filter((n) => n != null),
+            removedNodes: [],
+            previousSibling: null,
+            nextSibling: null
+        }) as unknown as MutationRecord)
+    };
+}
+
+export {record, replay, capture, compare, eventCodec, mutationCodec};
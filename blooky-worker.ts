@@ -0,0 +1,207 @@
+/**
+ * blooky-worker.ts
+ * Web Worker、MessagePort、BroadcastChannelを通して、ストリームの値を別のスレッドに送る。
+ * 値は構造化複製で送られるため、関数などの複製できない値はserializeで変換してから送る。
+ */
+import { Stream, Cell, parrot, stream, hold, merge, listen, drip, clear, onClear, onSubscribe, track, countRefs, isCell } from "./blooky";
+
+/**
+ * 値の送受信に用いるポート。MessagePort、BroadcastChannel、Workerなどが該当する。
+ */
+export type PortLike = {
+    postMessage(message:unknown): void
+    addEventListener(type:"message", f:(e:{ data:unknown })=>void): void
+    removeEventListener(type:"message", f:(e:{ data:unknown })=>void): void
+    /**
+     * MessagePortのように、受信を開始する必要があるポートで呼ぶ
+     */
+    start?(): void
+};
+
+/**
+ * ストリームを送り出す際の設定。
+ */
+export type ExportOptions<A> = {
+    /**
+     * 同じポートで複数のストリームを送る場合に、ストリームを区別する名前
+     */
+    channel?: string
+    /**
+     * 値を構造化複製できる値に変換する
+     */
+    serialize?: (v:A) => unknown
+};
+
+/**
+ * ストリームを受け取る際の設定。
+ */
+export type ImportOptions<A> = {
+    /**
+     * 送り出す側と同じ名前を指定する
+     */
+    channel?: string
+    /**
+     * 受け取った値を元の値に戻す
+     */
+    deserialize?: (v:unknown) => A
+};
+
+/**
+ * ポートで送受信するメッセージ。
+ * valueは値の発生、syncはセルの現在の値、closeは送受信の終了を表す。
+ * connectは、受け取る側からは接続を、送り出す側からは先に接続していた受け取る側に接続し直すよう求めることを表す。
+ */
+type PortMessage = {
+    blooky: string
+    type: "value" | "sync" | "connect" | "close"
+    value?: unknown
+    /**
+     * 受け取る側が送ったメッセージでは、その受け取る側の識別子
+     */
+    from?: string
+};
+
+/**
+ * 受け取ったデータが、指定した名前のメッセージであるかを判別する
+ * @param channel
+ * @returns
+ */
+const isMessage = (channel:string) => (data:unknown) : data is PortMessage =>
+    typeof data === "object" && data != null && (data as PortMessage).blooky === channel;
+
+/**
+ * メッセージを送る関数を作る
+ * @param port
+ * @param channel
+ * @param from 受け取る側が送る場合は、その識別子
+ * @returns
+ */
+const poster = (port:PortLike, channel:string, from?:string) => (type:PortMessage["type"], value?:unknown) => {
+    const m: PortMessage = { blooky: channel, type, value, from };
+    port.postMessage(m);
+}
+
+/**
+ * 受け取る側を区別する識別子を作る。別のスレッドで作られた識別子と重ならないよう、乱数と時刻から作る。
+ * @returns
+ */
+const connectionId = () => Math.random().toString(36).slice(2) + Date.now().toString(36);
+
+/**
+ * ストリームの値をポートに送り出し、送信を終了する関数を返す。
+ * セルを渡した場合は、受け取る側が接続した時点の値も送る。
+ * 送信を終了するか、送り出すストリームがclearされると受け取る側にも伝わる。
+ * 受け取る側は接続ごとに区別し、BroadcastChannelのように複数の受け取る側がある場合は、そのすべてが終了したときに送信を止める。
+ * @param s
+ * @param port
+ * @param options
+ * @returns
+ */
+const exportStream = <A>(s:Stream<A>|Cell<A>, port:PortLike, {channel = "default", serialize = parrot}:ExportOptions<A> = {}) : ()=>void => {
+    const u = isCell<A>(s) ? s.updates() : s;
+    const post = poster(port, channel);
+    const is = isMessage(channel);
+    const forward = (v:A) => post("value", serialize(v));
+    const sync = () => {
+        if (isCell<A>(s)) post("sync", serialize(s()));
+    };
+    const importers = new Set<string>();
+    let closed = false;
+    const close = (notify:boolean) => {
+        if (closed) return;
+        closed = true;
+        u.observers.delete(forward);
+        removeClear();
+        port.removeEventListener("message", receive);
+        if (notify) post("close");
+    };
+    const receive = ({data}:{ data:unknown }) => {
+        // 同じポートに送り出す側が他にあれば、そのメッセージは無視する
+        if (!is(data) || data.from === undefined) return;
+        if (data.type === "close") {
+            importers.delete(data.from);
+            if (!importers.size) close(false);
+        }
+        // 送り出すストリームがclearされていれば、受け取る側も終了させる
+        else if (data.type === "connect") {
+            importers.add(data.from);
+            u.observers.has(forward) ? sync() : close(true);
+        }
+    };
+    listen(u)(forward);
+    const removeClear = onClear(u)(() => close(true));
+    port.addEventListener("message", receive);
+    port.start?.();
+    // 先に接続していた受け取る側に、接続し直してもらう
+    post("connect");
+    const dispose = () => close(true);
+    track(dispose);
+    return dispose;
+}
+
+/**
+ * ポートから値とセルの現在の値を受け取るストリームを作る。
+ * セルの現在の値は最初の一回だけを受け取り、以降は値の発生で更新する。
+ * 値のストリームが一度購読された後に参照されなくなっていれば、次の受信の際に送り出す側へ終了を伝える。まだ購読されていない間に届いた値は捨てる。
+ * @param port
+ * @param options
+ * @returns
+ */
+const connect = <A>(port:PortLike, {channel = "default", deserialize = parrot as (v:unknown)=>A}:ImportOptions<A>) : [Stream<A>, Stream<A>] => {
+    const values = stream<A>();
+    const syncs = stream<A>();
+    const post = poster(port, channel, connectionId());
+    const is = isMessage(channel);
+    let closed = false;
+    let synced = false;
+    let subscribed = false;
+    const close = (notify:boolean) => {
+        if (closed) return;
+        closed = true;
+        port.removeEventListener("message", receive);
+        if (notify) post("close");
+        clear(values);
+        clear(syncs);
+    };
+    const receive = ({data}:{ data:unknown }) => {
+        // 他の受け取る側のメッセージは無視する
+        if (!is(data) || data.from !== undefined) return;
+        if (data.type === "close") return close(false);
+        if (data.type === "connect") return post("connect");
+        if (data.type !== "value" && data.type !== "sync") return;
+        if (!countRefs(values, true)()) return subscribed ? close(true) : undefined;
+        if (data.type === "sync") {
+            if (synced || !countRefs(syncs, true)()) return;
+            synced = true;
+        }
+        drip(data.type === "value" ? values : syncs)(deserialize(data.value));
+    };
+    onSubscribe(values)(() => subscribed = true);
+    port.addEventListener("message", receive);
+    port.start?.();
+    post("connect");
+    track(() => close(true));
+    return [values, syncs];
+}
+
+/**
+ * exportStreamで送り出されたストリームの値を受け取るストリームを作る。
+ * @param port
+ * @param options
+ * @returns
+ */
+const importStream = <A>(port:PortLike, options:ImportOptions<A> = {}) : Stream<A> => connect(port, options)[0];
+
+/**
+ * exportStreamで送り出されたセルの値を持つセルを作る。
+ * 接続するまでは初期値を持ち、接続すると送り出す側の現在の値に更新される。
+ * @param port
+ * @param options
+ * @returns
+ */
+const importCell = <A>(port:PortLike, options:ImportOptions<A> = {}) => (initial:A) : Cell<A> => {
+    const [values, syncs] = connect(port, options);
+    return hold(merge([values, syncs])((a) => a))(initial);
+}
+
+export {exportStream, importStream, importCell};
@@ -5,6 +5,9 @@
 
 const STREAM_FUNCTOR = Symbol("STREAM_FUNCTOR");
 const STREAM_FILTER = Symbol("STREAM_FILTER");
+const STREAM_CATCH = Symbol("STREAM_CATCH");
+const STREAM_RANK = Symbol("STREAM_RANK");
+const CELL_UPDATES = Symbol("CELL_UPDATES");
 
 /**
  * ストリームの状態定義。
@@ -23,6 +26,18 @@ type StreamState<A,B=any,C=any> = {
      * @returns 
      */
     [STREAM_FILTER]?: (v:B) => boolean
+    /**
+     * このストリーム以降で発生したエラーを受け取るストリーム
+     */
+    [STREAM_CATCH]?: Set<StreamState<any,FlowError>>
+    /**
+     * マージの順位。マージは順位の小さいものから一つずつ流れる
+     */
+    [STREAM_RANK]?: number
+    /**
+     * デバッグ用の名前
+     */
+    name?: string
     /**
      * 連結されたストリーム
      */
@@ -39,17 +54,134 @@ type StreamState<A,B=any,C=any> = {
      * イベントの発生を検知するオブザーバ
      */
     observers: Set<(v:A)=>void>
+    /**
+     * for await文で値を受け取るためのイテレータを取得する
+     * @returns 
+     */
+    [Symbol.asyncIterator](): AsyncIterableIterator<A>
 };
 
 /**
  * 連結したストリームを辿り、受け取った時変値の処理関数をまとめる
  */
 type FlowingState<A> = {
+    /**
+     * マージ予定のストリームと、到着した値
+     */
     waiting: [StreamState<A,A[]>,A][]
-    observers: (()=>void)[]
-    updates: (()=>void)[]
+    observers: (()=>FlowError|void)[]
+    updates: (()=>FlowError|void)[]
+    errors: FlowError[]
 }
 
+/**
+ * フロー中に発生したエラーの報告。
+ */
+export type FlowError = {
+    /**
+     * エラーが発生したストリーム
+     */
+    stream: Stream<any>
+    /**
+     * ストリームが受け取った値
+     */
+    value: unknown
+    /**
+     * 発生したエラー
+     */
+    error: unknown
+};
+
+/**
+ * dripの確定時の設定。
+ */
+export type DripOptions = {
+    /**
+     * 処理されなかったエラーをdrip.onErrorに渡さず、DripErrorとして送出する
+     */
+    rethrow?: boolean
+};
+
+/**
+ * scopeの実行中に登録された接続の解除処理をまとめる。
+ */
+type Scope = {
+    disposers: (()=>void)[]
+};
+
+/**
+ * 進行中のトランザクション。トランザクション内のdripはすべて一つのフロー状態にまとめられる。
+ */
+type Transaction = {
+    state: FlowingState<any>
+    /**
+     * トランザクションの確定前に行うdrip
+     */
+    sends: (()=>void)[]
+    /**
+     * トランザクションの確定後に行う状態の更新。中断されたトランザクションでは行わない
+     */
+    commits: (()=>void)[]
+    /**
+     * このトランザクションで値を流し込んだ起点のストリーム
+     */
+    dripped: Set<StreamState<any>>
+};
+
+/**
+ * トレースで記録した、一つのストリームの通過。
+ */
+export type TraceNode = {
+    /**
+     * ストリームの名前
+     */
+    stream: string
+    /**
+     * ストリームが受け取った値。マージされたストリームでは、まとめられた値の配列になる
+     */
+    input: unknown
+    /**
+     * ファンクタが返した値
+     */
+    output?: unknown
+    /**
+     * フィルタで値が捨てられた
+     */
+    filtered?: boolean
+    /**
+     * ファンクタで発生したエラー
+     */
+    error?: unknown
+    /**
+     * 呼び出し予定のオブザーバと時変値の更新の数
+     */
+    observers: number
+    updates: number
+    /**
+     * 続けて通過したストリーム
+     */
+    children: TraceNode[]
+};
+
+/**
+ * トレースで記録した、一つのトランザクションの処理。
+ */
+export type DripTrace = {
+    /**
+     * dripで値を流し込んだストリームから辿った通過の木
+     */
+    drips: TraceNode[]
+    /**
+     * 同じトランザクションで到着した値をまとめて流した、マージされたストリームからの通過の木
+     */
+    merges: TraceNode[]
+    /**
+     * オブザーバの呼び出しと時変値の更新で呼び出した関数の数と、発生したエラー
+     */
+    observers: { calls: number, errors: FlowError[] }
+    updates: { calls: number, errors: FlowError[] }
+};
+
 export type Stream<A> = StreamState<A>;
 
 /**
@@ -59,6 +191,153 @@ export type Prop<A> = {
     (): A
 }
 
+/**
+ * 更新ストリームを伴う時変値の型。Propとしても扱うことができる。
+ */
+export type Cell<A> = Prop<A> & {
+    /**
+     * 時変値を更新するストリーム
+     */
+    [CELL_UPDATES]: Stream<A>
+    /**
+     * 現在の値を取得する
+     * @returns 
+     */
+    sample(): A
+    /**
+     * 値の更新を通知するストリームを取得する
+     * @returns 
+     */
+    updates(): Stream<A>
+    /**
+     * 現在の値を最初に流し、以降は値の更新を通知するストリームを取得する。
+     * 現在の値は、このストリームかpipeなどで連なる下流が最初にlistenかholdされた時点で流す。
+     * @returns 
+     */
+    values(): Stream<A>
+    /**
+     * 値が変化した更新だけを通知するストリームを取得する
+     * @param eq 値の比較関数
+     * @returns 
+     */
+    changes(eq?:(a:A,b:A)=>boolean): Stream<A>
+};
+
+/**
+ * 値の型を問わないセル。
+ */
+type AnyCell = Prop<unknown> & { [CELL_UPDATES]: unknown };
+
+/**
+ * 時変値の組から、それぞれの値の型の組を取り出す。
+ */
+type PropValues<T extends readonly Prop<unknown>[]> = { [K in keyof T]: T[K] extends Prop<infer V> ? V : never };
+
+/**
+ * 名前をつけたストリームの組から、名前と値を持つ値の型の合併を作る。
+ */
+export type Tagged<T extends { [tag:string]: Stream<any> }> = {
+    [K in keyof T]: { tag: K, value: T[K] extends Stream<infer V> ? V : never }
+}[keyof T];
+
+/**
+ * 定義前に参照できるストリーム。loopで実際のストリームと結びつける。
+ */
+export type StreamLoop<A> = Stream<A> & {
+    /**
+     * 実際のストリームと結びつける
+     * @param s 
+     */
+    loop(s:Stream<A>): void
+};
+
+/**
+ * 定義前に参照できるセル。loopで実際のセルと結びつける。
+ */
+export type CellLoop<A> = Cell<A> & {
+    /**
+     * 実際のセルと結びつける
+     * @param c 
+     */
+    loop(c:Cell<A>): void
+};
+
+/**
+ * 伝播計画。起点のストリームから辿れるストリームを、深さ優先の行きがけ順に並べたもの。
+ */
+type Plan = {
+    /**
+     * 計画が正しいことを最後に確かめた時点のグラフの版
+     */
+    version: number
+    steps: PlanStep[]
+};
+
+/**
+ * 伝播計画の一つのストリーム。
+ */
+type PlanStep = {
+    stream: StreamState<any>
+    /**
+     * 値を受け取るストリームの位置。起点は-1
+     */
+    parent: number
+    /**
+     * このストリーム以降に連なるストリームの範囲の終わり
+     */
+    end: number
+    /**
+     * 計画を作成した時点の、このストリームの接続先の集合の版
+     */
+    version: number
+    /**
+     * 循環して再び現れたストリーム。同じ伝播の値は流さない
+     */
+    dynamic: boolean
+};
+
+/**
+ * 伝播計画の保存先と、いずれかのストリームの接続が変わるたびに進むグラフの版。
+ */
+const plans = {
+    version: 0,
+    cache: new WeakMap<StreamState<any>, Plan>()
+};
+
+/**
+ * 変更のたびに自身の版とグラフの版を進める、ストリームの接続先の集合。
+ */
+class EdgeSet<T> extends Set<T> {
+    #version = 0;
+    get version() {
+        return this.#version;
+    }
+    add(v:T) {
+        if (!this.has(v)) this.changed();
+        return super.add(v);
+    }
+    delete(v:T) {
+        const r = super.delete(v);
+        if (r) this.changed();
+        return r;
+    }
+    clear() {
+        if (this.size) this.changed();
+        super.clear();
+    }
+    private changed() {
+        this.#version++;
+        plans.version++;
+    }
+}
+
+/**
+ * ストリームの接続先の集合の版を返す
+ * @param s 
+ * @returns 
+ */
+const versionOf = (s:StreamState<any>) => (s.next as EdgeSet<unknown>).version;
+
 const parrot = <A>(v:A) => v;
 const compose = <A,B>(a:(v:A)=>B) => <C>(b:(v:B)=>C) => (v:A) => b(a(v));
 export {parrot,compose};
@@ -73,32 +352,93 @@ const stream = <A,B=any>(f:(v:B)=>A = parrot as (v:B)=>A) : StreamState<A,B> =>
     if (typeof f !== 'function') {
         throw new TypeError('STREAM_FUNCTOR must be a function');
     }
-    return {
+    const s: StreamState<A,B> = {
         [STREAM_FUNCTOR]: f,
-        next: new Set(),
-        lazyNext: new Set(),
+        next: new EdgeSet(),
+        lazyNext: new EdgeSet(),
         observers: new Set(),
-        updates: new Set()
-    }
+        updates: new Set(),
+        [Symbol.asyncIterator]: () => iterate(s)
+    };
+    return s;
 }
 
+/**
+ * clearされたときに呼ぶ関数の、ストリームごとの登録先。
+ */
+const clearing = new WeakMap<Stream<any>, Set<()=>void>>();
+
 /**
  * ストリーム/プロパティのメモリを解放する。ガベージコレクトの補助。
+ * onClearで登録された関数は、解放の後に呼ばれる。
  * @param s 
  */
-const clear = (s:Stream<unknown>|Prop<unknown>) => {
+const clear = (s:Stream<any>|Prop<any>) => {
     if (!isStream(s)) {
         throw new TypeError('clear function is need Stream or Prop type');
     }
     else {
         s.next.forEach(clear);
-        s.next = new Set();
-        s.lazyNext = new Set();
+        s.next.clear();
+        s.lazyNext.clear();
         s.observers.clear();
         s.updates.clear();
+        subscribing.forEach((w) => w[0] === s && subscribing.delete(w));
+        const f = clearing.get(s);
+        clearing.delete(s);
+        f?.forEach((f) => f());
     }
 }
 
+/**
+ * ストリームがclearされたときに一度だけ呼ぶ関数を登録し、登録を解除する関数を返す。
+ * ストリームの外にある送信先などを、ストリームとともに終了させるために用いる。
+ * @param s 
+ * @returns 
+ */
+const onClear = (s:Stream<any>) => (f:()=>void) : (()=>void) => {
+    const c = clearing.get(s) ?? new Set();
+    clearing.set(s, c.add(f));
+    const remove = () => {
+        c.delete(f);
+    };
+    track(remove);
+    return remove;
+}
+
+/**
+ * 下流に最初のオブザーバかプロパティが登録されるのを待っているストリームと、そのときに呼び出す関数。
+ */
+const subscribing = new Set<[StreamState<any>, ()=>void]>();
+
+/**
+ * オブザーバかプロパティの登録後に、それによって初めて下流が購読されたストリームの関数を呼び出す
+ */
+const subscribed = () => {
+    subscribing.forEach((w) => {
+        if (!countRefs(w[0], true)()) return;
+        subscribing.delete(w);
+        w[1]();
+    });
+}
+
+/**
+ * ストリームかその下流に、最初のオブザーバかプロパティが登録されたときに一度だけ関数を呼び出す。既に購読されていればすぐに呼び出す。
+ * トランザクション内で購読された場合はそのトランザクションの確定前に、オブザーバの呼び出し中に購読された場合はその場で呼び出す。
+ * オブザーバの呼び出し中に始めたトランザクション内で購読された場合は、後続のdripとして行うそのトランザクションの確定前に呼び出す。
+ * @param s 
+ * @returns 
+ */
+const onSubscribe = (s:Stream<any>) => (f:()=>void) => {
+    const call = () => {
+        const t = drip.observerPhase ? deferred.collecting : transaction.current;
+        if (t) t.sends.push(f);
+        else f();
+    };
+    if (countRefs(s, true)()) call();
+    else subscribing.add([s, call]);
+}
+
 /**
  * 引数がストリームであるかを判別する。
  * @param v 
@@ -106,6 +446,67 @@ const clear = (s:Stream<unknown>|Prop<unknown>) => {
  */
 const isStream = <A>(v:unknown) : v is Stream<A> => typeof v === "object" && v != null && STREAM_FUNCTOR in v;
 
+/**
+ * 引数がセルであるかを判別する。
+ * @param v 
+ * @returns 
+ */
+const isCell = <A>(v:unknown) : v is Cell<A> => typeof v === "function" && CELL_UPDATES in v;
+
+/**
+ * 実行中のscopeに接続の解除処理を登録する
+ * @param f 
+ */
+const track = (f:()=>void) => {
+    scope.current?.disposers.push(f);
+}
+
+/**
+ * 関数の実行中に登録されたpipe、filter、snapshot、merge、hold、listen、momentsのタイマーなどを記録し、
+ * 関数の結果と、それらをまとめて解除する関数を返す。
+ * scopeは入れ子にでき、内側のscopeは外側のscopeの解除時にも解除される。
+ * 解除されるのはscope内で登録された接続だけで、他から参照されているストリーム自体には影響しない。
+ * @param f 
+ * @returns 
+ */
+const scope = <R>(f:()=>R) : [R, ()=>void] => {
+    const parent = scope.current;
+    const s: Scope = scope.current = { disposers: [] };
+    let disposed = false;
+    const dispose = () => {
+        if (disposed) return;
+        disposed = true;
+        s.disposers.splice(0).reverse().forEach((f) => f());
+    };
+    try {
+        return [f(), dispose];
+    } catch (error) {
+        dispose();
+        throw error;
+    } finally {
+        scope.current = parent;
+        track(dispose);
+    }
+}
+
+scope.current = null as Scope | null;
+
+/**
+ * 実行中のscopeに記録せずに関数を実行する。
+ * 記録されなかった接続は、呼び出し側で解除する必要がある。
+ * @param f 
+ * @returns 
+ */
+const untracked = <R>(f:()=>R) : R => {
+    const parent = scope.current;
+    scope.current = null;
+    try {
+        return f();
+    } finally {
+        scope.current = parent;
+    }
+}
+
 /**
  * ストリームがオブザーバかプロパティによってどれだけ参照されているかを調べる
  * @param s 
@@ -125,125 +526,633 @@ const countRefs = <V>(s:Stream<V>, deep: boolean = false) : Prop<number> => {
  */
 const streamToFlowingState = <A>(v:A) => (s:StreamState<A>) : FlowingState<A> => ({
     waiting: [...s.lazyNext].map((s)=>[s,v]),
-    observers: [...s.observers].map(<B>(_f:(v:A)=>B) => () => _f(v)),
+    observers: [...s.observers].map(attempt(s,v)),
     // PROPのアップデーターが残っていれば使用し、残っていないならガベージコレクト用にストリームからも消去。
-    updates: [...s.updates].map((p) => ()=>p(v))
+    updates: [...s.updates].map(attempt(s,v)),
+    errors: []
 })
 
 /**
- * 二つのフロー状態を結合して単一のフロー状態とする
- * @param a 
- * @param b 
- * @returns 
- */
-const concatFlowingState = <V>(a:FlowingState<V>, b:FlowingState<V>) => ({
-    waiting: [...a.waiting, ...b.waiting],
-    observers: [...a.observers, ...b.observers],
-    updates: [...a.updates, ...b.updates]
-});
-
-/**
- * 時変値を受け取って指定のストリームからフローを開始、開始されたフロー状態を返す。
+ * オブザーバ等の呼び出しで発生したエラーを、報告として返す関数を作る
+ * @param s 
  * @param v 
  * @returns 
  */
-const flow = <B>(v:B) => <A>(s:StreamState<A,B>) : FlowingState<A> => {
+const attempt = <A>(s:StreamState<A>, v:A) => (f:(v:A)=>void) => () : FlowError|void => {
     try {
-        const r = s[STREAM_FUNCTOR](v);
-        return [...s.next]
-            .filter(s => !s[STREAM_FILTER] || s[STREAM_FILTER](r))
-            .map(flow(r))
-            .reduce(concatFlowingState, streamToFlowingState(r)(s));
+        f(v);
     } catch (error) {
-        console.error('Error in flow function:', error);
-        return { waiting: [], observers: [], updates: [] }; // エラー時のデフォルト状態を返す
+        return { stream: s, value: v, error };
     }
 }
 
 /**
- * マージ予定ストリームの遅延処理を施したフロー関数。
- * @param v 
+ * 空のフロー状態を作成する
  * @returns 
  */
-const flowLazy = <B>(v:B) => <A>(s:StreamState<A,B>) : FlowingState<A> => {
-    const r = flow(v)(s);
-    // マージされたストリームとはつながっていない
-    if(!r.waiting.length) return r;
-    
-    // マージされたストリーム毎に、到着した値をリスト化する
-    const m = new Map<StreamState<A,A[]>,A[]>();
-    r.waiting.forEach(([s,v]) => {
-        m.set(s, m.has(s) ? [...m.get(s)!, v] : [v]);
-    });
+const emptyFlowingState = <A>() : FlowingState<A> => ({ waiting: [], observers: [], updates: [], errors: [] });
 
-    return [...m].map(([s,v])=>flowLazy(v)(s)).reduce(concatFlowingState, {
-        waiting: [],
-        observers: r.observers,
-        updates: r.updates
-    });
+/**
+ * フロー状態に別のフロー状態を書き足す
+ * @param a 
+ * @param b 
+ * @returns 
+ */
+const appendFlowingState = <V>(a:FlowingState<V>, b:FlowingState<V>) : FlowingState<V> => {
+    b.waiting.forEach((w) => a.waiting.push(w));
+    b.observers.forEach((f) => a.observers.push(f));
+    b.updates.forEach((f) => a.updates.push(f));
+    b.errors.forEach((e) => a.errors.push(e));
+    return a;
 }
 
+/**
+ * フロー中のストリームに登録されたエラーの受け取り先。内側のものほど後ろに積まれる。
+ */
+const catching: Set<StreamState<any,FlowError>>[] = [];
 
 /**
- * 起点となるストリームに時変値を流し込み、関連するオブザーバの呼び出しと時変値の更新を行う。
- * @param s 
+ * 接続を辿って流している値が、起点から通過中のストリーム。
+ * 循環して再び現れたストリームには、同じ伝播の値を流さない。
+ */
+const cycles = {
+    path: new Set<StreamState<any>>()
+};
+
+/**
+ * 通過中のストリームを指定して、値を流す関数を呼び出す
+ * @param path 
  * @returns 
  */
-const drip = <A,B>(s: StreamState<A,B>) => (v:B) : FlowingState<A> => {
-    if (drip.observerPhase) {
-        throw new Error('drip cannot be called during observer phase');
-    }
+const entering = (path:Set<StreamState<any>>) => <R>(f:()=>R) : R => {
+    const p = cycles.path;
+    cycles.path = path;
     try {
-        const state = flowLazy(v)(s);
-        drip.observerPhase = true;
-        state.observers.forEach(f => f());
-        drip.observerPhase = false;
-        state.updates.forEach(f => f());
-        return state;
-    } catch (error) {
-        console.error('Error in drip function:', error);
-        drip.observerPhase = false;
-        return { waiting: [], observers: [], updates: [] }; // エラー時のデフォルト状態を返す
+        return f();
+    } finally {
+        cycles.path = p;
     }
-};
-
-drip.observerPhase = false;
+}
 
 /**
- * 二つ以上のイベントストリームを一つにまとめる
+ * ストリームから接続を辿って、別のストリームに到達できるかを調べる
  * @param s 
  * @returns 
  */
-const merge = <A> (s:StreamState<A>[]) => (f:(a:A,b:A)=>A) : StreamState<A,A[]> => {
-    // マージ後のストリーム
-    const _s : StreamState<A,A[]> = stream((v:A[]) => {
-        if(!v.length) throw new Error("No values have been merged yet.");
-        return v.reduce(f);
+const reaches = (s:StreamState<any>) => (t:StreamState<any>) : boolean => {
+    const visited = new Set<StreamState<any>>();
+    const visit = (s:StreamState<any>) : boolean => [...s.next, ...s.lazyNext].some((n) => {
+        if (n === t) return true;
+        if (visited.has(n)) return false;
+        visited.add(n);
+        return visit(n);
     });
-    s.forEach((s)=>s.lazyNext.add(_s));
-    return _s;
-};
+    return visit(s);
+}
 
 /**
- * ストリームを分岐させる
- * @param s 
+ * 最も内側のエラーの受け取り先にエラーを流す。受け取り先がなければフロー状態にエラーを残す。
+ * @param e 
  * @returns 
  */
-const pipe = <A>(s:StreamState<A>) => <B>(f:(v:A)=>B) => {
-    if (typeof f !== 'function') {
-        throw new TypeError('pipe function must be a function');
+const recover = <A>(e:FlowError) : FlowingState<A> => {
+    const h = catching.pop();
+    if (!h) return { ...emptyFlowingState(), errors: [e] };
+    try {
+        return [...h].map(flow(e)).reduce(appendFlowingState<any>, emptyFlowingState());
+    } finally {
+        catching.push(h);
     }
-    const _s = stream(f);
-    s.next.add(_s);
-    return _s;
 }
 
 /**
- * 時変値に関数を適用して新しい時変値を作る
- * @param c 
+ * 時変値を受け取って指定のストリームからフローを開始、開始されたフロー状態を返す。
+ * 起点ごとに作成した伝播計画に従って、各ストリームを順に処理する。
+ * @param v 
+ * @returns 
+ */
+const flow = <B>(v:B) => <A>(s:StreamState<A,B>) : FlowingState<A> => {
+    if (tracing.current) return walk(v)(s);
+    const {steps} = planOf(s);
+    const r = emptyFlowingState<any>();
+    const values: unknown[] = new Array(steps.length);
+    for (let i = 0; i < steps.length;) {
+        const {stream: t, parent, end, version, dynamic} = steps[i];
+        const input = parent < 0 ? v : values[parent];
+        // 循環して再び現れたストリームには流さない
+        if (dynamic) {
+            i = end;
+            continue;
+        }
+        // 計画の作成後にファンクタ等がこのストリームの接続を変えた場合は、以降を接続を辿って流す
+        if (versionOf(t) !== version) {
+            appendFlowingState(r, entering(pathTo(steps, parent))(() => walk(input)(t)));
+            i = end;
+            continue;
+        }
+        try {
+            if (t[STREAM_FILTER] && !t[STREAM_FILTER](input)) {
+                i = end;
+                continue;
+            }
+            const o = values[i] = t[STREAM_FUNCTOR](input);
+            t.lazyNext.forEach((m) => r.waiting.push([m, o]));
+            t.observers.forEach((f) => r.observers.push(attempt(t, o)(f)));
+            t.updates.forEach((f) => r.updates.push(attempt(t, o)(f)));
+            i++;
+        } catch (error) {
+            appendFlowingState(r, recoverAt(steps, i)({ stream: t, value: input, error }));
+            i = end;
+        }
+    }
+    return r;
+}
+
+/**
+ * 起点の伝播計画を返す。
+ * グラフの版が変わっていれば、計画に含まれるストリームの接続が変わった場合に限り作成し直す。
+ * @param s 
+ * @returns 
+ */
+const planOf = (s:StreamState<any>) : Plan => {
+    const p = plans.cache.get(s);
+    if (p && p.version === plans.version) return p;
+    if (p && p.steps.every((step) => step.dynamic || versionOf(step.stream) === step.version)) {
+        p.version = plans.version;
+        return p;
+    }
+    const steps: PlanStep[] = [];
+    const path = new Set<StreamState<any>>();
+    const visit = (t:StreamState<any>, parent:number) => {
+        const i = steps.length;
+        const step: PlanStep = { stream: t, parent, end: 0, version: versionOf(t), dynamic: path.has(t) };
+        steps.push(step);
+        if (!step.dynamic) {
+            path.add(t);
+            t.next.forEach((n) => visit(n, i));
+            path.delete(t);
+        }
+        step.end = steps.length;
+    };
+    visit(s, -1);
+    const plan = { version: plans.version, steps };
+    plans.cache.set(s, plan);
+    return plan;
+}
+
+/**
+ * 伝播計画のストリームまでに通過するストリームを集める
+ * @param steps 
+ * @param i 
+ * @returns 
+ */
+const pathTo = (steps:PlanStep[], i:number) : Set<StreamState<any>> => {
+    const path = new Set<StreamState<any>>();
+    for (let j = i; j >= 0; j = steps[j].parent) path.add(steps[j].stream);
+    return path;
+}
+
+/**
+ * 伝播計画の途中で発生したエラーを、そのストリームまでに登録された受け取り先に流す
+ * @param steps 
+ * @param i 
+ * @returns 
+ */
+const recoverAt = (steps:PlanStep[], i:number) => (e:FlowError) : FlowingState<any> => {
+    const handlers: Set<StreamState<any,FlowError>>[] = [];
+    for (let j = i; j >= 0; j = steps[j].parent) {
+        const h = steps[j].stream[STREAM_CATCH];
+        if (h) handlers.unshift(h);
+    }
+    catching.push(...handlers);
+    try {
+        return recover(e);
+    } finally {
+        catching.splice(catching.length - handlers.length);
+    }
+}
+
+/**
+ * 伝播計画を用いずに、接続を辿りながらフローを開始する。トレースの記録中と、計画の作成後に接続が変わった場合に用いる。
+ * @param v 
+ * @returns 
+ */
+const walk = <B>(v:B) => <A>(s:StreamState<A,B>) : FlowingState<A> => {
+    // 循環して再び現れたストリームには流さない
+    if (cycles.path.has(s)) return emptyFlowingState();
+    const h = s[STREAM_CATCH];
+    const t = tracing.current && traceNode(s, v);
+    if (h) catching.push(h);
+    try {
+        if (s[STREAM_FILTER] && !s[STREAM_FILTER](v)) {
+            if (t) t.filtered = true;
+            return emptyFlowingState();
+        }
+        const r = s[STREAM_FUNCTOR](v);
+        if (t) {
+            t.output = r;
+            t.observers = s.observers.size;
+            t.updates = s.updates.size;
+        }
+        cycles.path.add(s);
+        try {
+            return [...s.next]
+                .map(walk(r))
+                .reduce(appendFlowingState, streamToFlowingState(r)(s));
+        } finally {
+            cycles.path.delete(s);
+        }
+    } catch (error) {
+        if (t) t.error = error;
+        return recover({ stream: s, value: v, error });
+    } finally {
+        if (h) catching.pop();
+        if (t) tracing.stack.pop();
+    }
+}
+
+/**
+ * 通過したストリームをトレースに記録し、以降の通過の親とする
+ * @param s 
+ * @param v 
+ * @returns 
+ */
+const traceNode = (s:Stream<any>, v:unknown) : TraceNode => {
+    const t: TraceNode = { stream: nameOf(s), input: v, observers: 0, updates: 0, children: [] };
+    const parent = tracing.stack[tracing.stack.length - 1];
+    if (parent) parent.children.push(t);
+    else if (tracing.settling) tracing.current!.merges.push(t);
+    else tracing.current!.drips.push(t);
+    tracing.stack.push(t);
+    return t;
+}
+
+/**
+ * マージ予定ストリームの遅延処理を行い、フロー状態を確定させる。
+ * マージを順位の小さいものから一つずつ、到着した値をすべてまとめて流すため、
+ * 順位の大きいマージは、順位の小さいマージから届く値をすべて受け取ってから一度だけ流れる。
+ * 既に流れたマージに循環を通って再び届いた値は、同じ伝播に再入させずに捨てる。
+ * @param r 
+ * @returns 
+ */
+const settle = <A>(r:FlowingState<A>) : FlowingState<A> => {
+    const settling = tracing.settling;
+    tracing.settling = true;
+    const settled = new Set<StreamState<any>>();
+    try {
+        while (r.waiting.length) {
+            const [s] = r.waiting.reduce((a, b) => b[0][STREAM_RANK]! < a[0][STREAM_RANK]! ? b : a);
+            const v = r.waiting.filter(([t]) => t === s).map(([,v]) => v);
+            r = { ...r, waiting: r.waiting.filter(([t]) => t !== s) };
+            if (settled.has(s) && reaches(s)(s)) continue;
+            settled.add(s);
+            appendFlowingState(r, flow(v)(s));
+        }
+        return r;
+    } finally {
+        tracing.settling = settling;
+    }
+}
+
+/**
+ * フロー状態を確定させ、オブザーバの呼び出しと時変値の更新を行う。
+ * @param state 
+ * @returns 
+ */
+const commit = <A>(state:FlowingState<A>) : FlowingState<A> => {
+    const r = settle(state);
+    const errors = [...r.errors];
+    const t = tracing.current;
+    const call = (phase?:{errors:FlowError[]}) => (f:()=>FlowError|void) => {
+        const e = f();
+        if (e) errors.push(e);
+        if (e && phase) phase.errors.push(e);
+    };
+    if (t) {
+        t.observers.calls = r.observers.length;
+        t.updates.calls = r.updates.length;
+    }
+    drip.observerPhase = true;
+    try {
+        r.observers.forEach(call(t?.observers));
+    } finally {
+        drip.observerPhase = false;
+    }
+    r.updates.forEach(call(t?.updates));
+    return { ...r, errors };
+}
+
+/**
+ * 確定したフロー状態に残ったエラーを、設定に従って報告する
+ * @param state 
+ * @param options 
+ */
+const report = <A>(state:FlowingState<A>, {rethrow = false}:DripOptions = {}) => {
+    if (!state.errors.length) return;
+    if (rethrow) throw new DripError(state.errors);
+    state.errors.forEach((e) => drip.onError(e));
+}
+
+/**
+ * dripの途中で処理されなかったエラーをまとめた例外。
+ */
+class DripError extends Error {
+    constructor(readonly errors: FlowError[]) {
+        super(`${errors.length} error(s) occurred during drip`);
+        this.name = "DripError";
+    }
+}
+
+/**
+ * 関数内で行われたdripを一つのトランザクションにまとめる。
+ * マージは同時に発生したすべてのイベントを受け取り、オブザーバの呼び出しと時変値の更新は確定時に一度だけ行われる。
+ * トランザクションが入れ子になった場合は外側のトランザクションにまとめられ、設定も外側のものが使われる。
+ * オブザーバの呼び出し中に始めた場合は、関数内のdripをまとめて一つの後続のdripとし、現在のトランザクションの確定後に行う。
+ * 一つのストリームに値を流し込めるのは、一つのトランザクションにつき一度だけで、二度目のdripは例外を送出する。
+ * @param f 
+ * @param options 
+ * @returns 
+ */
+const transaction = <R>(f:()=>R, options?:DripOptions) : R => {
+    if (drip.observerPhase) return collectDeferred(f, options);
+    if (transaction.current) return f();
+    const t: Transaction = transaction.current = { state: emptyFlowingState(), sends: [], commits: [], dripped: new Set() };
+    const trace = drip.trace;
+    if (trace) tracing.current = {
+        drips: [],
+        merges: [],
+        observers: { calls: 0, errors: [] },
+        updates: { calls: 0, errors: [] }
+    };
+    let r: R;
+    try {
+        r = f();
+        while (t.sends.length) t.sends.shift()!();
+        t.state = commit(t.state);
+        t.commits.forEach((f) => f());
+        if (trace && tracing.current) trace(tracing.current);
+        report(t.state, options);
+    } catch (error) {
+        // 失敗したトランザクションから続くdripは行わない
+        if (!deferred.current) deferred.queue = [];
+        throw error;
+    } finally {
+        transaction.current = null;
+        tracing.current = null;
+        tracing.stack = [];
+    }
+    sendDeferred();
+    return r;
+};
+
+transaction.current = null as Transaction | null;
+
+/**
+ * オブザーバの呼び出し中に行われた、一つのトランザクションで確定させるdrip。
+ */
+type DeferredDrip = {
+    /**
+     * 値を流し込むストリームと値の組
+     */
+    drips: [StreamState<any>, unknown][]
+    /**
+     * 確定前に呼び出す関数
+     */
+    sends: (()=>void)[]
+    options?: DripOptions
+    /**
+     * 最初のdripから数えた、後続のdripの深さ
+     */
+    depth: number
+    /**
+     * 最初の後続のdripから、このdripまでに値を流し込んだストリームの名前
+     */
+    path: string[]
+};
+
+/**
+ * 確定後に行う後続のdripの待ち行列と、処理中の後続のdrip、オブザーバの呼び出し中に始めたトランザクションで集めているdrip。
+ */
+const deferred = {
+    queue: [] as DeferredDrip[],
+    current: null as DeferredDrip | null,
+    collecting: null as Pick<DeferredDrip, "drips" | "sends"> | null
+};
+
+/**
+ * 後続のdripを待ち行列に積む。深さが上限を超えた場合は、待ち行列を空にして例外を送出する。
+ * @param drips 
+ * @param sends 
+ * @param options 
+ */
+const defer = (drips:[StreamState<any>, unknown][], sends:(()=>void)[], options?:DripOptions) => {
+    const parent = deferred.current;
+    const d: DeferredDrip = {
+        drips,
+        sends,
+        options,
+        depth: (parent?.depth ?? 0) + 1,
+        path: [...parent?.path ?? [], drips.map(([s]) => nameOf(s)).join(" + ")]
+    };
+    if (d.depth > drip.maxDepth) {
+        deferred.queue = [];
+        throw new Error(`drip exceeded the maximum depth of ${drip.maxDepth} deferred drips: ${d.path.join(" -> ")}`);
+    }
+    deferred.queue.push(d);
+}
+
+/**
+ * オブザーバの呼び出し中に始めたトランザクションの関数を実行し、その中のdripをまとめて後続のdripとして積む。
+ * 関数が例外を送出した場合は、何も積まない。
+ * @param f 
+ * @param options 
  * @returns 
  */
-const lift = <A>(c:Prop<any>[]) => (f:(p: any[])=>A) : Prop<A> => () => f(c.map((f)=>f()));
+const collectDeferred = <R>(f:()=>R, options?:DripOptions) : R => {
+    if (deferred.collecting) return f();
+    const d: Pick<DeferredDrip, "drips" | "sends"> = deferred.collecting = { drips: [], sends: [] };
+    try {
+        const r = f();
+        if (d.drips.length || d.sends.length) defer(d.drips, d.sends, options);
+        return r;
+    } finally {
+        deferred.collecting = null;
+    }
+}
+
+/**
+ * 待ち行列に積まれた後続のdripを、積まれた順に一つずつ確定させる。
+ * 後続のdripの中で積まれたdripも、同じ待ち行列の末尾から処理する。
+ */
+const sendDeferred = () => {
+    if (deferred.current) return;
+    try {
+        while (deferred.queue.length) {
+            const d = deferred.current = deferred.queue.shift()!;
+            transaction(() => {
+                d.drips.forEach(([s, v]) => drip(s)(v));
+                transaction.current!.sends.push(...d.sends);
+            }, d.options);
+        }
+    } finally {
+        deferred.current = null;
+        deferred.queue = [];
+    }
+}
+
+/**
+ * 記録中のトレースと、通過中のストリームの記録。
+ */
+const tracing = {
+    current: null as DripTrace | null,
+    stack: [] as TraceNode[],
+    settling: false
+};
+
+/**
+ * 一つのトランザクションで同じストリームに二度値を流し込んだときの例外を作る
+ * @param s 
+ * @returns 
+ */
+const dripTwice = (s:Stream<any>) =>
+    new Error(`drip cannot flow into ${nameOf(s)} twice in one transaction; combine the values with merge or drip them in separate transactions`);
+
+/**
+ * 起点となるストリームに時変値を流し込み、関連するオブザーバの呼び出しと時変値の更新を行う。
+ * トランザクション内で呼び出された場合は、フロー状態をトランザクションに加えるだけで確定はしない。
+ * オブザーバの呼び出し中に呼び出された場合は、現在のトランザクションの確定後に、呼び出された順に別のトランザクションで行う。
+ * 処理されなかったエラーは返り値のerrorsに含まれ、drip.onErrorに渡されるか、設定によってDripErrorとして送出される。
+ * @param s 
+ * @param options 
+ * @returns 
+ */
+const drip = <A,B>(s: StreamState<A,B>, options?:DripOptions) => (v:B) : FlowingState<A> => {
+    if (drip.observerPhase) {
+        const c = deferred.collecting;
+        if (c?.drips.some(([t]) => t === s)) throw dripTwice(s);
+        if (c) c.drips.push([s, v]);
+        else defer([[s, v]], [], options);
+        return emptyFlowingState();
+    }
+    if (unboundLoops.has(s)) {
+        throw new Error(`drip cannot flow into ${nameOf(s)} before it is bound with loop`);
+    }
+    const t = transaction.current;
+    if (t) {
+        if (drip.input && drip.input(s, v, !!deferred.current) === false) return emptyFlowingState();
+        // 同じ起点から二度流すと、二度目は確定前の状態から計算され、先の更新を上書きしてしまう
+        if (t.dripped.has(s)) throw dripTwice(s);
+        t.dripped.add(s);
+        const r = flow(v)(s);
+        appendFlowingState(t.state, r);
+        return r;
+    }
+    return transaction(() => {
+        drip(s)(v);
+        return transaction.current!;
+    }, options).state;
+};
+
+drip.observerPhase = false;
+
+/**
+ * オブザーバの呼び出し中のdripから、さらに続けて行えるdripの深さの上限。
+ */
+drip.maxDepth = 100;
+
+/**
+ * 処理されなかったエラーの報告先。
+ * @param e 
+ */
+drip.onError = (e:FlowError) : void => console.error('Error in drip function:', e.error);
+
+/**
+ * 設定されていれば、トランザクションの確定ごとにその処理の記録を受け取る。
+ */
+drip.trace = null as ((t:DripTrace)=>void) | null;
+
+/**
+ * 設定されていれば、起点のストリームに流し込まれる値を、フローの開始前に受け取る。
+ * 三つ目の引数はオブザーバの呼び出し中に行われた後続のdripであるかを表し、falseを返すとその値を流さない。
+ */
+drip.input = null as ((s:Stream<any>, v:unknown, deferred:boolean)=>boolean|void) | null;
+
+/**
+ * マージに与えた順位の最大値。
+ */
+const ranks = { count: 0 };
+
+/**
+ * 二つ以上のイベントストリームを一つにまとめる
+ * @param s 
+ * @returns 
+ */
+const merge = <A> (s:StreamState<A>[]) => (f:(a:A,b:A)=>A) : StreamState<A,A[]> => {
+    // マージ後のストリーム
+    const _s : StreamState<A,A[]> = stream((v:A[]) => {
+        if(!v.length) throw new Error("No values have been merged yet.");
+        return v.reduce(f);
+    });
+    // 入力より後に作られるため、作成順を順位とすれば、入力に連なるマージがすべて流れてから流れる
+    _s[STREAM_RANK] = ++ranks.count;
+    s.forEach((s)=>{
+        s.lazyNext.add(_s);
+        track(() => s.lazyNext.delete(_s));
+    });
+    return _s;
+};
+
+/**
+ * 型の異なるストリームを、名前と値を持つ値のストリームにまとめる。
+ * 同じトランザクションで複数の値が届いた場合は関数でまとめ、関数を省くと先に届いた値を用いる。
+ * @param s 名前とストリームの組
+ * @param f 
+ * @returns 
+ */
+const mergeWith = <T extends { [tag:string]: Stream<any> }>(s:T, f:(a:Tagged<T>, b:Tagged<T>)=>Tagged<T> = parrot) : Stream<Tagged<T>> =>
+    merge(Object.keys(s).map((tag) => pipe(s[tag])((value) => ({ tag, value }) as Tagged<T>)))(f);
+
+/**
+ * ストリームを分岐させる
+ * @param s 
+ * @returns 
+ */
+const pipe = <A>(s:StreamState<A>) => <B>(f:(v:A)=>B) => {
+    if (typeof f !== 'function') {
+        throw new TypeError('pipe function must be a function');
+    }
+    const _s = stream(f);
+    s.next.add(_s);
+    track(() => s.next.delete(_s));
+    return _s;
+}
+
+/**
+ * 時変値に関数を適用して新しい時変値を作る。
+ * 関数を二つ目の引数に渡した場合は、時変値の値をそれぞれ引数として受け取る。
+ * @param c 
+ * @param f 
+ * @returns 
+ */
+function lift<T extends readonly AnyCell[] | [], A>(c:T, f:(...v:PropValues<T>)=>A): Cell<A>;
+function lift<T extends readonly Prop<unknown>[] | [], A>(c:T, f:(...v:PropValues<T>)=>A): Prop<A>;
+function lift<A>(c:AnyCell[]): (f:(p: any[])=>A) => Cell<A>;
+function lift<A>(c:Prop<any>[]): (f:(p: any[])=>A) => Prop<A>;
+function lift<A>(c:Prop<any>[], g?:(...v:any[])=>A) {
+    if (g) return lift(c)((v) => g(...v));
+    return (f:(p: any[])=>A) : Prop<A> => {
+        if (!c.length || !c.every(isCell)) return () => f(c.map((f)=>f()));
+        // 変化した入力の値だけを差し替えて再計算する。
+        // マージは入力のセルが確定してから流れるため、一つのトランザクションで一度だけ再計算する
+        const s = merge(c.map((c,i) => pipe(c.changes())((v):[number,any][] => [[i,v]])))((a,b) => [...a,...b]);
+        const p = pipe(s)((u) => {
+            const v = c.map((f)=>f());
+            u.forEach(([i,_v]) => v[i] = _v);
+            return f(v);
+        });
+        return hold(p)(f(c.map((f)=>f())));
+    };
+}
 
 /**
  * イベントストリームから条件に合う値だけを取り出すストリームを生成する
@@ -261,11 +1170,34 @@ const filter = <A>(s:Stream<A>) => <B extends A>(f:(v:A)=>boolean): StreamState<
  * @param s 
  * @returns 
  */
-const hold = <A>(s:Stream<A>) => (v:A) : Prop<A> => {
-    s.updates.add((_v)=>v=_v);
-    return ()=>v;
+const hold = <A>(s:Stream<A>) => (v:A) : Cell<A> => {
+    const u = (_v:A) => v = _v;
+    s.updates.add(u);
+    track(() => s.updates.delete(u));
+    subscribed();
+    return cell(s)(()=>v);
 }
 
+/**
+ * 更新ストリームと値の取得関数からセルを作る
+ * @param s 
+ * @returns 
+ */
+const cell = <A>(s:Stream<A>) => (p:Prop<A>) : Cell<A> => Object.assign(() => p(), {
+    [CELL_UPDATES]: s,
+    sample: p,
+    updates: () => s,
+    values: () => {
+        // 流す時点の値を用いる
+        const i = stream<A,void>(() => p());
+        // 同じトランザクションで更新があれば、そちらを優先する
+        const o = merge([s, i])((a) => a);
+        onSubscribe(o)(() => drip(i)(undefined));
+        return o;
+    },
+    changes: (eq:(a:A,b:A)=>boolean = (a,b) => a === b) => filter(s)((v) => !eq(v, p()))
+});
+
 /**
  * イベントストリームにオブザーバーを登録する
  * @param param0 
@@ -273,18 +1205,30 @@ const hold = <A>(s:Stream<A>) => (v:A) : Prop<A> => {
  */
 const listen = <A>({observers}:Stream<A>) => (f:(v:A)=>void) => {
     observers.add(f);
-    return observers.delete.bind(observers, f);
+    const unlisten = observers.delete.bind(observers, f);
+    track(unlisten);
+    subscribed();
+    return unlisten;
 };
 
 /**
- * 一つのイベントストリームから別の時変値のタイミングでサンプルを取る
+ * 一つのイベントストリームから別の時変値のタイミングでサンプルを取る。
+ * 時変値の組と関数を渡した場合は、イベントの値とそれぞれの時変値の値を関数で組み合わせる。
  * @param s 
+ * @param c 
+ * @param f 
  * @returns 
  */
-const snapshot = <A>(s:Stream<A>) => <B>(c:Prop<B>) : StreamState<B,A> => {
-    const _s = stream(c);
-    s.next.add(_s);
-    return _s;
+function snapshot<A, T extends readonly Prop<unknown>[] | [], B>(s:Stream<A>, c:T, f:(v:A, ...p:PropValues<T>)=>B): StreamState<B,A>;
+function snapshot<A>(s:Stream<A>): <B>(c:Prop<B>) => StreamState<B,A>;
+function snapshot<A>(s:Stream<A>, c?:Prop<unknown>[], f?:(v:A, ...p:any[])=>unknown) {
+    if (c && f) return pipe(s)((v) => f(v, ...c.map((p) => p())));
+    return <B>(c:Prop<B>) : StreamState<B,A> => {
+        const _s = stream(c);
+        s.next.add(_s);
+        track(() => s.next.delete(_s));
+        return _s;
+    };
 }
 
 /**
@@ -292,26 +1236,255 @@ const snapshot = <A>(s:Stream<A>) => <B>(c:Prop<B>) : StreamState<B,A> => {
  * @param _s 
  * @returns 
  */
-const accum = <A>(_s:Stream<A>) => <S>(f:(v:A,s:S)=>S, s: S) : Prop<S> => {
-    const p: Prop<S> = hold(pipe(_s)((v:A)=>f(v,p())))(s);
+const accum = <A>(_s:Stream<A>) => <S>(f:(v:A,s:S)=>S, s: S) : Cell<S> => {
+    const p: Cell<S> = hold(pipe(_s)((v:A)=>f(v,p())))(s);
     return p;
 }
 
+/**
+ * まだloopされていないストリーム
+ */
+const unboundLoops = new Set<Stream<any>>();
+
+/**
+ * 定義前に参照できるストリームを生成する。
+ * 循環によって同じ伝播に再入した値は、既に流れたストリームには流れない。
+ * @returns 
+ */
+const streamLoop = <A>() : StreamLoop<A> => {
+    const l: StreamLoop<A> = Object.assign(stream<A>(), {
+        loop: (s:Stream<A>) => {
+            if (!unboundLoops.has(l)) throw new Error('streamLoop is already bound');
+            unboundLoops.delete(l);
+            s.next.add(l);
+            track(() => s.next.delete(l));
+        }
+    });
+    unboundLoops.add(l);
+    return l;
+}
+
+/**
+ * 定義前に参照できるセルを生成する。
+ * @returns 
+ */
+const cellLoop = <A>() : CellLoop<A> => {
+    const s = streamLoop<A>();
+    let c: Cell<A> | null = null;
+    return Object.assign(cell(s)(() => {
+        if (!c) throw new Error('cellLoop cannot be sampled before it is bound');
+        return c.sample();
+    }), {
+        loop: (_c:Cell<A>) => {
+            s.loop(_c.updates());
+            c = _c;
+        }
+    });
+}
+
+/**
+ * ストリーム以降で発生したエラーを受け取り、関数で変換した値を流すストリームを作る。
+ * エラーは最も内側の受け取り先だけに渡され、drip.onErrorには報告されない。
+ * @param s 
+ * @returns 
+ */
+const catchError = <A>(s:Stream<A>) => <B>(f:(e:FlowError)=>B) : StreamState<B,FlowError> => {
+    const _s = stream(f);
+    const h = s[STREAM_CATCH] ??= new EdgeSet();
+    h.add(_s);
+    track(() => h.delete(_s));
+    return _s;
+}
+
 /**
  * 値を受け取るストリームをスイッチする
  * @param ss 
  * @returns 
  */
-const shed = <A>(ss: Stream<Stream<A>>) => {
+const shed = <A>(ss: Stream<Stream<A>>) => switchS(hold(ss)(stream<A>()));
+
+/**
+ * ストリームを保持するセルから、その時点のストリームの値を受け取るストリームを作る。
+ * 切り替えはトランザクションの確定時に行われ、同じトランザクションで発生した値は切り替え前のストリームが受け取る。
+ * 切り替え前のストリームからは切り離され、外側のセルとの接続はscopeの解除時に切り離される。
+ * @param c 
+ * @returns 
+ */
+const switchS = <A>(c:Cell<Stream<A>>) : Stream<A> => {
     const o = stream<A>();
-    const p = hold(ss)(o);
-    listen(ss)((s)=>{
-        p().next.delete(o);
-        s.next.add(o);
+    const outer = c.updates();
+    let inner = c.sample();
+    const update = (s:Stream<A>) => {
+        inner.next.delete(o);
+        inner = s;
+        inner.next.add(o);
+    };
+    inner.next.add(o);
+    outer.updates.add(update);
+    track(() => {
+        inner.next.delete(o);
+        outer.updates.delete(update);
     });
     return o;
 }
 
+/**
+ * セルを保持するセルから、その時点のセルの値を持つセルを作る。
+ * 切り替えたトランザクションでは、切り替え先のセルの値に更新される。
+ * @param cc 
+ * @returns 
+ */
+const switchC = <A>(cc:Cell<Cell<A>>) : Cell<A> => {
+    const inner = pipe(switchS(lift<Stream<A>>([cc])(([c]:Cell<A>[]) => c.updates())))((v):[boolean,A] => [false, v]);
+    const swapped = pipe(cc.updates())((c):[boolean,A] => [true, c.sample()]);
+    const s = pipe(merge([inner, swapped])((a,b) => a[0] ? a : b))(([,v]) => v);
+    return hold(s)(cc.sample().sample());
+}
+
+/**
+ * 非同期処理との接続に用いる設定。
+ */
+export type AsyncOptions = {
+    /**
+     * 待機や値の受け取りを中断するシグナル
+     */
+    signal?: AbortSignal
+};
+
+/**
+ * 非同期処理の結果を値として取り出す。失敗していればその理由を送出し、エラーとして扱わせる。
+ * @param r 
+ * @returns 
+ */
+const unwrap = <A>(r:PromiseSettledResult<A>) : A => {
+    if (r.status === "rejected") throw r.reason;
+    return r.value;
+}
+
+/**
+ * Promiseが解決したときに一度だけ値を流すストリームを作る。
+ * 拒否された場合は、その理由がエラーとしてcatchErrorやdrip.onErrorに渡される。
+ * @param p 
+ * @returns 
+ */
+const fromPromise = <A>(p:PromiseLike<A>) : Stream<A> => {
+    const s = stream(unwrap<A>);
+    p.then(
+        (value) => drip(s)({ status: "fulfilled", value }),
+        (reason) => drip(s)({ status: "rejected", reason }));
+    return s;
+}
+
+/**
+ * 非同期イテレータから受け取った値を流すストリームを作る。
+ * ストリームが参照されなくなると次の値を受け取った時点で、シグナルで中断されるとすぐに、イテレータを閉じる。
+ * 値を流す際に送出された例外は非同期処理の外に伝わらないため、drip.onErrorに渡してイテレータを閉じる。
+ * @param iterable 
+ * @param options 
+ * @returns 
+ */
+const fromAsyncIterable = <A>(iterable:AsyncIterable<A>, {signal}:AsyncOptions = {}) : Stream<A> => {
+    const s = stream(unwrap<A>);
+    const it = iterable[Symbol.asyncIterator]();
+    let done = false;
+    const stop = () => {
+        done = true;
+        signal?.removeEventListener("abort", close);
+    };
+    const close = () => {
+        if (done) return;
+        stop();
+        // 待機中の値を待たずに閉じる
+        Promise.resolve(it.return?.()).catch(() => {});
+    };
+    const send = (r:PromiseSettledResult<A>) => {
+        try {
+            drip(s)(r);
+            return true;
+        } catch (error) {
+            drip.onError({ stream: s, value: r, error });
+            return false;
+        }
+    };
+    (async () => {
+        if (signal?.aborted) return close();
+        signal?.addEventListener("abort", close);
+        try {
+            for (let r = await it.next(); !done; r = await it.next()) {
+                if (r.done) return stop();
+                if (!countRefs(s, true)() || !send({ status: "fulfilled", value: r.value })) return close();
+            }
+        } catch (reason) {
+            if (done) return;
+            stop();
+            send({ status: "rejected", reason });
+        }
+    })();
+    return s;
+}
+
+/**
+ * ストリームに次に流れる値を受け取るPromiseを作る。
+ * シグナルで中断された場合は、その理由で拒否される。
+ * @param s 
+ * @param options 
+ * @returns 
+ */
+const nextValue = <A>(s:Stream<A>, {signal}:AsyncOptions = {}) : Promise<A> => new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const abort = () => {
+        unlisten();
+        reject(signal!.reason);
+    };
+    const unlisten = listen(s)((v) => {
+        unlisten();
+        signal?.removeEventListener("abort", abort);
+        resolve(v);
+    });
+    signal?.addEventListener("abort", abort, { once: true });
+});
+
+/**
+ * ストリームに流れた値を順に受け取る非同期イテレータを作る。
+ * 受け取りが追いつかない値はバッファに溜め、breakやシグナルによる中断でストリームの購読を解除してバッファを捨てる。
+ * @param s 
+ * @param options 
+ * @returns 
+ */
+const iterate = <A>(s:Stream<A>, {signal}:AsyncOptions = {}) : AsyncIterableIterator<A> => {
+    const buffer: A[] = [];
+    const waiting: ((r:IteratorResult<A,undefined>)=>void)[] = [];
+    let done = false;
+    const unlisten = listen(s)((value) => {
+        const resolve = waiting.shift();
+        if (resolve) resolve({ value, done: false });
+        else buffer.push(value);
+    });
+    const finish = () : IteratorResult<A,undefined> => {
+        if (!done) {
+            done = true;
+            buffer.length = 0;
+            unlisten();
+            signal?.removeEventListener("abort", finish);
+            waiting.splice(0).forEach((resolve) => resolve({ value: undefined, done: true }));
+        }
+        return { value: undefined, done: true };
+    };
+    if (signal?.aborted) finish();
+    else signal?.addEventListener("abort", finish, { once: true });
+    return {
+        next: () => buffer.length
+            ? Promise.resolve({ value: buffer.shift()!, done: false })
+            : done
+            ? Promise.resolve({ value: undefined, done: true })
+            : new Promise((resolve) => waiting.push(resolve)),
+        return: () => Promise.resolve(finish()),
+        [Symbol.asyncIterator]() {
+            return this;
+        }
+    };
+}
+
 /**
  * moments.framecountのファンクタに渡される状態変数。
  */
@@ -338,10 +1511,143 @@ type FrameCountState = {
     count: number
 }
 
+/**
+ * momentsが時刻の取得とタイマーの予約に用いるスケジューラ。
+ */
+export type Scheduler = {
+    /**
+     * 現在時刻のミリ秒を取得する
+     * @returns 
+     */
+    now(): number
+    /**
+     * 一定時間後に一度だけ関数を呼び出す
+     * @param f 
+     * @param ms 
+     * @returns 
+     */
+    setTimeout(f:()=>void, ms:number): unknown
+    /**
+     * setTimeoutの予約を取り消す
+     * @param id 
+     */
+    clearTimeout(id:unknown): void
+    /**
+     * 一定間隔で関数を呼び出す
+     * @param f 
+     * @param ms 
+     * @returns 
+     */
+    setInterval(f:()=>void, ms:number): unknown
+    /**
+     * setIntervalの予約を取り消す
+     * @param id 
+     */
+    clearInterval(id:unknown): void
+    /**
+     * 次のフレーム更新で関数を呼び出す。フレーム更新を持たない環境では定義されない。
+     * @param f 
+     * @returns 
+     */
+    requestAnimationFrame?(f:(now:number)=>void): unknown
+};
+
+/**
+ * 手動で時刻を進めるスケジューラ。
+ */
+export type VirtualScheduler = Scheduler & {
+    /**
+     * 時刻を進め、その間に予約されたタイマーを時刻順に呼び出す
+     * @param ms 
+     */
+    advance(ms:number): void
+    /**
+     * 予約されたタイマーがなくなるまで時刻を進める。setIntervalは取り消されるまで続くため、回数に上限を設ける。
+     * @param limit 
+     */
+    flush(limit?:number): void
+    /**
+     * 時刻を進めてから、フレーム更新を一回発生させる
+     * @param ms 
+     */
+    frame(ms?:number): void
+};
+
+/**
+ * 実行環境のタイマーを用いるスケジューラ。
+ */
+const defaultScheduler: Scheduler = {
+    now: () => performance.now(),
+    setTimeout: (f, ms) => setTimeout(f, ms),
+    clearTimeout: (id) => clearTimeout(id as ReturnType<typeof setTimeout>),
+    setInterval: (f, ms) => setInterval(f, ms),
+    clearInterval: (id) => clearInterval(id as ReturnType<typeof setInterval>),
+    requestAnimationFrame: typeof requestAnimationFrame === "function"
+        ? (f) => requestAnimationFrame(f)
+        : undefined
+};
+
+/**
+ * 手動で時刻を進めるスケジューラを生成する。
+ * @param now 開始時刻
+ * @returns 
+ */
+const virtualScheduler = (now:number = 0) : VirtualScheduler => {
+    type Timer = { id: number, at: number, f: ()=>void, every?: number };
+    let id = 0;
+    let timers: Timer[] = [];
+    let frames: ((now:number)=>void)[] = [];
+    const schedule = (f:()=>void, ms:number, every?:number) => {
+        timers.push({ id: ++id, at: now + Math.max(ms, 0), f, every });
+        return id;
+    };
+    const cancel = (id:unknown) => {
+        timers = timers.filter((t) => t.id !== id);
+    };
+    const advance = (ms:number) => {
+        const until = now + ms;
+        for (;;) {
+            const t = timers
+                .filter((t) => t.at <= until)
+                .reduce<Timer|null>((a,b) => a && (a.at < b.at || a.at === b.at && a.id < b.id) ? a : b, null);
+            if (!t) break;
+            now = t.at;
+            if (t.every === undefined) cancel(t.id);
+            else t.at += Math.max(t.every, 1);
+            t.f();
+        }
+        now = until;
+    };
+    return {
+        now: () => now,
+        setTimeout: (f, ms) => schedule(f, ms),
+        clearTimeout: cancel,
+        setInterval: (f, ms) => schedule(f, ms, ms),
+        clearInterval: cancel,
+        requestAnimationFrame: (f) => frames.push(f),
+        advance,
+        flush: (limit = 1000) => {
+            for (let i = 0; i < limit && timers.length; i++) {
+                advance(Math.min(...timers.map((t) => t.at)) - now);
+            }
+        },
+        frame: (ms = 1000 / 60) => {
+            advance(ms);
+            const f = frames;
+            frames = [];
+            f.forEach((f) => f(now));
+        }
+    };
+}
+
 /**
  * 時間の更新をイベントストリームとして取得する。
  */
 type moments = {
+    /**
+     * 時刻の取得とタイマーの予約に用いるスケジューラ。差し替えた後に生成したストリームから使われる。
+     */
+    scheduler: Scheduler
     /**
      * 一定時間後、一回きりのタイムイベントを取得する
      * @param ms 
@@ -364,51 +1670,387 @@ type moments = {
 
 const moments = {} as moments; {
 
-    const now: Prop<number> = performance.now.bind(performance);
+    moments.scheduler = defaultScheduler;
+
+    const now: Prop<number> = () => moments.scheduler.now();
     const elapsed = (t:number) => now() - t;
 
     moments.timeout = (ms:number = 0) => {
         const s = stream(elapsed);
-        setTimeout(drip(s), ms, now());
+        const t = now();
+        const {scheduler} = moments;
+        const pid = scheduler.setTimeout(() => drip(s)(t), ms);
+        track(() => scheduler.clearTimeout(pid));
         return s;
     };
 
     moments.interval = (ms: number = 0) => {
+        const {scheduler} = moments;
         const s = stream(elapsed);
-        const pid = setInterval(drip(s), ms, now());
-        listen(s)(()=>countRefs(s)()<2 && clearInterval(pid));
+        const t = now();
+        const pid = scheduler.setInterval(() => drip(s)(t), ms);
+        listen(s)(()=>countRefs(s)()<2 && scheduler.clearInterval(pid));
+        track(() => scheduler.clearInterval(pid));
         return s;
     };
 
-    moments.framecount = typeof window.requestAnimationFrame === "function"
-        ? (limit: number = Infinity) => {
-            const started = now();
-            const s: Stream<FrameCountState> = stream((now) => {
-                const prev = p();
-                return {
-                    now,
-                    started,
-                    elapsed: now - started,
-                    deltaTime: now - prev.now,
-                    count: prev.count + 1
-                }
-            });
-            const p = hold(s)({
-                started,
-                now: started,
-                elapsed: 0,
-                deltaTime: 0,
-                count: 0
-            });
-            listen(s)(() => p().count<limit && countRefs(s)()>ref_min && requestAnimationFrame(drip(s)));
-            requestAnimationFrame(drip(s));
-            const ref_min = countRefs(s)();
-            return s;
+    moments.framecount = (limit: number = Infinity) => {
+        const {scheduler} = moments;
+        if (typeof scheduler.requestAnimationFrame !== "function") {
+            throw new Error('moments.framecount function need "requestAnimationFrame" function');
         }
-        : (_:number) => {throw new Error('moments.framecount function need "requestAnimationFrame" function')};
+        const started = now();
+        const s: Stream<FrameCountState> = stream((now) => {
+            const prev = p();
+            return {
+                now,
+                started,
+                elapsed: now - started,
+                deltaTime: now - prev.now,
+                count: prev.count + 1
+            }
+        });
+        const p = hold(s)({
+            started,
+            now: started,
+            elapsed: 0,
+            deltaTime: 0,
+            count: 0
+        });
+        let stopped = false;
+        const tick = (now:number) => stopped || drip(s)(now);
+        listen(s)(() => p().count<limit && countRefs(s)()>ref_min && scheduler.requestAnimationFrame!(tick));
+        scheduler.requestAnimationFrame(tick);
+        track(() => stopped = true);
+        const ref_min = countRefs(s)();
+        return s;
+    };
+
+}
+
+/**
+ * throttleの設定。
+ */
+export type ThrottleOptions = {
+    /**
+     * 待機期間の最初の値を流す
+     */
+    leading?: boolean
+    /**
+     * 待機期間の終わりに、期間中の最後の値を流す
+     */
+    trailing?: boolean
+};
+
+/**
+ * タイマーを用いて値を流す演算子の共通処理。タイマーにはmoments.schedulerを用いる。
+ * 出力ストリームが参照されなくなっていれば、タイマーと入力ストリームの購読を解除する。
+ * @param s 
+ * @returns 
+ */
+const timed = <A,B>(s:Stream<A>) => (f:(emit:(v:B)=>void, timer:(f:()=>void, ms:number)=>void, cancel:()=>void) => (v:A)=>void) : Stream<B> => {
+    const o = stream<B>();
+    const {scheduler} = moments;
+    const pids = new Set<unknown>();
+    const cancel = () => {
+        pids.forEach((pid) => scheduler.clearTimeout(pid));
+        pids.clear();
+    };
+    const released = () => {
+        if (countRefs(o, true)()) return false;
+        cancel();
+        unlisten();
+        return true;
+    };
+    const timer = (f:()=>void, ms:number) => {
+        const pid = scheduler.setTimeout(() => {
+            pids.delete(pid);
+            if (!released()) f();
+        }, ms);
+        pids.add(pid);
+    };
+    const g = f(drip(o), timer, cancel);
+    const unlisten = listen(s)((v) => released() || g(v));
+    track(cancel);
+    return o;
+}
+
+/**
+ * 値が途絶えてから一定時間後に、最後の値を流すストリームを作る
+ * @param s 
+ * @returns 
+ */
+const debounce = <A>(s:Stream<A>) => (ms:number) : Stream<A> =>
+    timed<A,A>(s)((emit, timer, cancel) => (v) => {
+        cancel();
+        timer(() => emit(v), ms);
+    });
+
+/**
+ * 一定時間に一回だけ値を流すストリームを作る
+ * @param s 
+ * @returns 
+ */
+const throttle = <A>(s:Stream<A>) => (ms:number, {leading = true, trailing = false}:ThrottleOptions = {}) : Stream<A> => {
+    let throttling = false;
+    let pending: [A] | null = null;
+    const lead = filter<A>(s)(() => leading && !throttling);
+    const trail = timed<A,A>(s)((emit, timer) => {
+        const tick = () => {
+            if (trailing && pending) {
+                emit(pending[0]);
+                pending = null;
+                timer(tick, ms);
+            } else {
+                throttling = false;
+            }
+        };
+        return (v) => {
+            if (throttling || !leading) pending = [v];
+            if (throttling) return;
+            throttling = true;
+            timer(tick, ms);
+        };
+    });
+    return merge([lead, trail])((_,b) => b);
+}
 
+/**
+ * 値を一定時間遅らせて流すストリームを作る
+ * @param s 
+ * @returns 
+ */
+const delay = <A>(s:Stream<A>) => (ms:number) : Stream<A> =>
+    timed<A,A>(s)((emit, timer) => (v) => timer(() => emit(v), ms));
+
+/**
+ * 値を受け取ってから一定時間後に、その間の最後の値を流すストリームを作る
+ * @param s 
+ * @returns 
+ */
+const auditTime = <A>(s:Stream<A>) => (ms:number) : Stream<A> => {
+    let latest: [A] | null = null;
+    return timed<A,A>(s)((emit, timer) => (v) => {
+        if (!latest) timer(() => {
+            const [v] = latest!;
+            latest = null;
+            emit(v);
+        }, ms);
+        latest = [v];
+    });
+}
+
+/**
+ * 最初の値を受け取ってから一定時間の間に受け取った値を、まとめて流すストリームを作る
+ * @param s 
+ * @returns 
+ */
+const bufferTime = <A>(s:Stream<A>) => (ms:number) : Stream<A[]> => {
+    const buffer: A[] = [];
+    return timed<A,A[]>(s)((emit, timer) => (v) => {
+        if (!buffer.length) timer(() => emit(buffer.splice(0)), ms);
+        buffer.push(v);
+    });
 }
 
+/**
+ * 一定数の値を受け取るたびに、まとめて流すストリームを作る
+ * @param s 
+ * @returns 
+ */
+const bufferCount = <A>(s:Stream<A>) => (n:number) : Stream<A[]> => {
+    const b = pipe(s)((v:A) : A[] => [...p(), v]);
+    const o = filter<A[]>(b)((b) => b.length >= n);
+    const p: Cell<A[]> = hold(merge([b, pipe(o)((): A[] => [])])((_,b) => b))([]);
+    return o;
+}
+
+
+/**
+ * describeGraphで出力するストリーム。
+ */
+export type GraphNode = {
+    id: number
+    name: string
+    /**
+     * フィルタを持つ
+     */
+    filter: boolean
+    /**
+     * マージされたストリームである
+     */
+    merge: boolean
+    /**
+     * エラーの受け取り先を持つ
+     */
+    catch: boolean
+    observers: number
+    updates: number
+};
+
+/**
+ * describeGraphで出力するストリームの接続。mergeはマージされたストリームへの、catchはエラーの受け取り先への接続を表す。
+ */
+export type GraphEdge = {
+    from: number
+    to: number
+    kind: "next" | "merge" | "catch"
+};
+
+/**
+ * describeGraphで出力するストリームのグラフ。JSONとして扱うことができる。
+ */
+export type GraphDescription = {
+    nodes: GraphNode[]
+    edges: GraphEdge[]
+};
+
+/**
+ * 名前のないストリームに振る番号。
+ */
+const streamIds = new WeakMap<Stream<any>, number>();
+
+/**
+ * ストリームの番号を返す。番号のないストリームには新たに振る。
+ * @param s 
+ * @returns 
+ */
+const streamId = (s:Stream<any>) : number => {
+    if (!streamIds.has(s)) streamIds.set(s, ++streamId.last);
+    return streamIds.get(s)!;
+}
+
+streamId.last = 0;
+
+/**
+ * ストリームの名前を返す。名前がなければ番号から作る。
+ * @param s 
+ * @returns 
+ */
+const nameOf = (s:Stream<any>|Cell<any>) : string => {
+    const _s = isCell(s) ? s.updates() : s as Stream<any>;
+    return _s.name ?? `stream#${streamId(_s)}`;
+}
+
+/**
+ * ストリームにデバッグ用の名前をつける。セルの場合は更新ストリームに名前をつける。
+ * @param name 
+ * @returns 
+ */
+const named = (name:string) => <S extends Stream<any>|Cell<any>>(s:S) : S => {
+    (isCell(s) ? s.updates() : s as Stream<any>).name = name;
+    return s;
+}
+
+/**
+ * ストリームから辿れるストリームと接続を、グラフとして出力する。
+ * @param root 起点とするストリームかセル、またはその配列
+ * @returns 
+ */
+const describeGraph = (root:Stream<any>|Cell<any>|(Stream<any>|Cell<any>)[]) : GraphDescription => {
+    const nodes: GraphNode[] = [];
+    const edges: GraphEdge[] = [];
+    const visited = new Set<Stream<any>>();
+    const merges = new Set<Stream<any>>();
+    const queue = (Array.isArray(root) ? root : [root]).map((s) => isCell(s) ? s.updates() : s as Stream<any>);
+    while (queue.length) {
+        const s = queue.shift()!;
+        if (visited.has(s)) continue;
+        visited.add(s);
+        const id = streamId(s);
+        const link = (kind:GraphEdge["kind"]) => (t:Stream<any>) => {
+            if (kind === "merge") merges.add(t);
+            edges.push({ from: id, to: streamId(t), kind });
+            queue.push(t);
+        };
+        s.next.forEach(link("next"));
+        s.lazyNext.forEach(link("merge"));
+        s[STREAM_CATCH]?.forEach(link("catch"));
+        nodes.push({
+            id,
+            name: nameOf(s),
+            filter: !!s[STREAM_FILTER],
+            merge: false,
+            catch: !!s[STREAM_CATCH]?.size,
+            observers: s.observers.size,
+            updates: s.updates.size
+        });
+    }
+    nodes.forEach((n) => n.merge = [...merges].some((s) => streamId(s) === n.id));
+    return { nodes, edges };
+}
+
+/**
+ * describeGraphの出力をGraphvizのDOT言語に変換する。
+ * @param g 
+ * @returns 
+ */
+const toDot = (g:GraphDescription) : string => {
+    const q = (v:string) => JSON.stringify(v);
+    return [
+        "digraph blooky {",
+        ...g.nodes.map((n) => `  n${n.id} [label=${q([
+            n.name,
+            ...n.filter ? ["filter"] : [],
+            ...n.merge ? ["merge"] : [],
+            `observers: ${n.observers}, updates: ${n.updates}`
+        ].join("\n"))}${n.merge ? ", shape=box" : ""}];`),
+        ...g.edges.map((e) => `  n${e.from} -> n${e.to}${
+            e.kind === "merge" ? " [style=dashed]" :
+            e.kind === "catch" ? " [color=red, label=\"catch\"]" : ""};`),
+        "}"
+    ].join("\n");
+}
+
+/**
+ * 関数の実行中に確定したトランザクションのトレースを集める。
+ * @param f 
+ * @returns 関数の結果とトレースの組
+ */
+const traced = <R>(f:()=>R) : [R, DripTrace[]] => {
+    const traces: DripTrace[] = [];
+    const prev = drip.trace;
+    drip.trace = (t) => {
+        traces.push(t);
+        prev?.(t);
+    };
+    try {
+        return [f(), traces];
+    } finally {
+        drip.trace = prev;
+    }
+}
+
+/**
+ * トレースを読みやすい文字列に変換する。
+ * @param t 
+ * @returns 
+ */
+const formatTrace = (t:DripTrace) : string => {
+    const show = (v:unknown) : string => {
+        let r: string;
+        try {
+            r = JSON.stringify(v) ?? String(v);
+        } catch {
+            r = String(v);
+        }
+        return r.length > 60 ? r.slice(0, 57) + "..." : r;
+    };
+    const line = (depth:number) => (n:TraceNode) : string[] => [
+        "  ".repeat(depth) + `${n.stream}: ${show(n.input)}` + (
+            n.filtered ? " (filtered)" :
+            "error" in n ? ` !! ${show(n.error instanceof Error ? n.error.message : n.error)}` :
+            ` -> ${show(n.output)}`) +
+        (n.observers || n.updates ? ` [observers: ${n.observers}, updates: ${n.updates}]` : ""),
+        ...n.children.flatMap(line(depth + 1))
+    ];
+    return [
+        ...t.drips.flatMap((n) => ["drip", ...line(1)(n)]),
+        ...t.merges.flatMap((n) => ["merge", ...line(1)(n)]),
+        `observers: ${t.observers.calls} call(s), ${t.observers.errors.length} error(s)`,
+        `updates: ${t.updates.calls} call(s), ${t.updates.errors.length} error(s)`
+    ].join("\n");
+}
 
-export {stream,isStream,countRefs,clear,hold,accum,lift,merge,pipe,filter,snapshot,listen,drip,shed,moments};
+export {stream,isStream,isCell,countRefs,clear,onClear,onSubscribe,scope,track,untracked,hold,accum,lift,merge,mergeWith,pipe,filter,snapshot,listen,drip,transaction,catchError,DripError,streamLoop,cellLoop,shed,switchS,switchC,fromPromise,fromAsyncIterable,nextValue,iterate,moments,virtualScheduler,debounce,throttle,delay,auditTime,bufferTime,bufferCount,named,nameOf,describeGraph,toDot,traced,formatTrace};
 
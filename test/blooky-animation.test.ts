@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { VirtualScheduler, moments, virtualScheduler, stream, hold, listen, drip } from "../blooky";
+import { easings, interpolation, play, tween, sequence, spring } from "../blooky-animation";
+
+/**
+ * moments.schedulerを仮想のスケジューラに差し替えて関数を実行する
+ * @param f
+ */
+const virtually = (f:(v:VirtualScheduler)=>void) => {
+    const scheduler = moments.scheduler;
+    const v = moments.scheduler = virtualScheduler();
+    try {
+        f(v);
+    } finally {
+        moments.scheduler = scheduler;
+    }
+}
+
+test("tween drips the interpolated value on each frame and completes at the end", () => virtually((v) => {
+    const a = tween(0, 100, { duration: 100 });
+    const log: (number|string)[] = [];
+    listen(a)((n) => log.push(n));
+    listen(a.completed)(() => log.push("completed"));
+    [0, 1, 2, 3, 4, 5].forEach(() => v.frame(25));
+    assert.deepEqual(log, [25, 50, 75, 100, "completed"]);
+    assert.equal(a.playing(), false);
+    assert.equal(a.time(), 100);
+}));
+
+test("tween interpolates colors and arrays and applies the easing", () => {
+    assert.equal(interpolation("#000", "rgb(255, 0, 100)", { duration: 10 }).at(5), "rgba(128, 0, 50, 1)");
+    assert.deepEqual(interpolation([0, 10], [10, 20], { duration: 10, easing: easings.easeIn }).at(5), [1.25, 11.25]);
+    assert.throws(() => interpolation("#000", "red"), /cannot interpolate the color "red"/);
+});
+
+test("pause, resume and seek move the playback position", () => virtually((v) => {
+    const a = tween(0, 100, { duration: 100 });
+    const log: number[] = [];
+    listen(a)((n) => log.push(n));
+    v.frame(20);
+    a.pause();
+    assert.equal(a.playing(), false);
+    v.frame(20);
+    v.frame(20);
+    a.resume();
+    assert.equal(a.playing(), true);
+    v.frame(10);
+    v.frame(10);
+    a.seek(90);
+    v.frame(10);
+    v.frame(10);
+    assert.deepEqual(log, [20, 30, 40, 90, 100]);
+    assert.equal(a.playing(), false);
+}));
+
+test("sequence plays its timelines one after another", () => virtually((v) => {
+    const a = play(sequence([interpolation(0, 10, { duration: 20 }), interpolation(10, 0, { duration: 20 })]));
+    const log: number[] = [];
+    listen(a)((n) => log.push(n));
+    [0, 1, 2, 3].forEach(() => v.frame(10));
+    assert.equal(a.duration, 40);
+    assert.deepEqual(log, [5, 10, 5, 0]);
+    assert.throws(() => sequence([]), /at least one timeline/);
+}));
+
+test("spring moves toward the target, keeps its velocity when the target changes and settles on it", () => virtually((v) => {
+    const s = stream<number>();
+    const x = spring(hold(s)(0))(0);
+    const log: number[] = [];
+    listen(x.updates())((n) => log.push(n));
+    v.frame(16);
+    assert.deepEqual(log, []);
+    drip(s)(100);
+    v.frame(16);
+    v.frame(16);
+    const [first, second] = log;
+    assert.ok(0 < first && first < second && second < 100);
+    drip(s)(0);
+    v.frame(16);
+    assert.ok(log[2] > second);
+    for (let i = 0; i < 300; i++) v.frame(16);
+    assert.equal(x(), 0);
+    const frames = log.length;
+    v.frame(16);
+    assert.equal(log.length, frames);
+}));
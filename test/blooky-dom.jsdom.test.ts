@@ -0,0 +1,225 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+import { stream, hold, lift, listen, drip, scope, countRefs } from "../blooky";
+import { jshtml, each, component, defineElement } from "../blooky-dom";
+
+const { window } = new JSDOM("<!DOCTYPE html><html><body></body></html>");
+
+// blooky-domが使うDOMのグローバルを、jsdomのウィンドウから設定する
+Object.assign(globalThis, Object.fromEntries([
+    "window", "document", "Node", "Element", "Comment", "Text", "DocumentFragment", "Range", "MutationObserver",
+    "Event", "CustomEvent", "HTMLElement", "HTMLInputElement", "HTMLSelectElement", "HTMLSlotElement", "customElements"
+].map((k) => [k, window[k as keyof typeof window]])));
+
+/**
+ * MutationObserverへの通知が処理されるまで待つ
+ * @returns
+ */
+const tick = () => new Promise((r) => setTimeout(r, 0));
+
+/**
+ * 要素の子孫から、セレクタに一致する要素のテキストを順に取り出す
+ * @param e
+ * @param selector
+ * @returns
+ */
+const texts = (e:ParentNode, selector:string) => Array.from(e.querySelectorAll(selector), (n) => n.textContent);
+
+test("each reuses the nodes of the rows it keeps and moves them into the new order", () => {
+    const s = stream<{ id:number, t:string }[]>();
+    const list = hold(s)([{ id: 1, t: "a" }, { id: 2, t: "b" }, { id: 3, t: "c" }]);
+    const ul = jshtml({ ul: each(list, (v) => v.id, (item) => ({ li: jshtml(lift([item], (v) => v.t)) })), $: {} });
+    document.body.append(ul);
+    const [a, b, c] = ul.querySelectorAll("li");
+    drip(s)([{ id: 3, t: "c" }, { id: 1, t: "A" }, { id: 4, t: "d" }]);
+    const rows = ul.querySelectorAll("li");
+    assert.deepEqual(texts(ul, "li"), ["c", "A", "d"]);
+    assert.equal(rows[0], c);
+    assert.equal(rows[1], a);
+    assert.equal(b.isConnected, false);
+    ul.remove();
+});
+
+test("each releases the bindings of removed rows and of every row with its scope", () => {
+    const s = stream<number[]>();
+    const item = stream<number>();
+    const [ul, dispose] = scope(() => jshtml({ ul: each(s, (v) => v, (_, k) => ({ li: jshtml(hold(item)(k)) })), $: {} }));
+    document.body.append(ul);
+    drip(s)([1, 2]);
+    assert.deepEqual(texts(ul, "li"), ["1", "2"]);
+    const refs = countRefs(item, true)();
+    drip(s)([2]);
+    assert.equal(countRefs(item, true)(), refs / 2);
+    drip(item)(9);
+    assert.deepEqual(texts(ul, "li"), ["9"]);
+    dispose();
+    assert.equal(countRefs(item, true)(), 0);
+    assert.equal(countRefs(s, true)(), 0);
+    ul.remove();
+});
+
+test("cell bindings made outside a scope are kept until the node is detached from the document", async () => {
+    const s = stream<string>();
+    const cell = hold(s)("red");
+    const on = stream<boolean>();
+    const p = jshtml({ p: jshtml(cell), $: { title: cell, classList: { on: hold(on)(false) } } });
+    drip(s)("blue");
+    document.body.append(p);
+    await tick();
+    drip(s)("green");
+    drip(on)(true);
+    assert.equal(p.textContent, "green");
+    assert.equal(p.title, "green");
+    assert.equal(p.className, "on");
+    p.remove();
+    await tick();
+    drip(s)("gray");
+    drip(s)("black");
+    drip(on)(false);
+    assert.equal(countRefs(s, true)(), 1);
+    assert.equal(countRefs(on, true)(), 1);
+    assert.equal(p.textContent, "green");
+    assert.equal(p.title, "green");
+    assert.equal(p.className, "on");
+});
+
+test("model binds a checkbox whose type is given after it and stops sending once disposed", () => {
+    const sink = stream<boolean>();
+    const checked = hold(sink)(true);
+    const [input, dispose] = scope(() => jshtml<"input">({ input: null, $: { model: [checked, sink], type: "checkbox" } }));
+    document.body.append(input);
+    assert.equal(input.checked, true);
+    input.click();
+    assert.equal(checked(), false);
+    dispose();
+    input.click();
+    assert.equal(checked(), false);
+    input.remove();
+});
+
+test("model binds radio buttons to the value of the checked one or null", () => {
+    const sink = stream<string|null>();
+    const picked = hold(sink)(null);
+    const radio = (value:string) => jshtml<"input">({ input: null, $: { type: "radio", name: "pick", value, model: [picked, sink] } });
+    const [a, b] = [radio("a"), radio("b")];
+    document.body.append(a, b);
+    assert.deepEqual([a.checked, b.checked], [false, false]);
+    b.click();
+    assert.equal(picked(), "b");
+    drip(sink)("a");
+    assert.deepEqual([a.checked, b.checked], [true, false]);
+    a.remove();
+    b.remove();
+});
+
+test("svg and math subtrees are created in their namespaces and foreignObject switches back to HTML", () => {
+    const box = stream<string>();
+    const shape = stream<string|{ g:null }>();
+    const svg = jshtml<"svg">({ svg: [
+        { circle: null, $: { r: "1", "xlink:href": "#c" } },
+        jshtml(hold(shape)("")),
+        { foreignObject: { div: "html" } }
+    ], $: { viewBox: hold(box)("0 0 10 10") } });
+    const math = jshtml({ math: { mi: "x" }, $: {} });
+    const circle = svg.querySelector("circle")!;
+    assert.equal(svg.namespaceURI, "http://www.w3.org/2000/svg");
+    assert.equal(circle.namespaceURI, "http://www.w3.org/2000/svg");
+    assert.equal(circle.getAttributeNS("http://www.w3.org/1999/xlink", "href"), "#c");
+    assert.equal(svg.querySelector("div")!.namespaceURI, "http://www.w3.org/1999/xhtml");
+    assert.equal(math.firstElementChild!.namespaceURI, "http://www.w3.org/1998/Math/MathML");
+    document.body.append(svg);
+    drip(box)("0 0 20 20");
+    drip(shape)({ g: null });
+    assert.equal(svg.getAttribute("viewBox"), "0 0 20 20");
+    assert.equal(svg.querySelector("g")!.namespaceURI, "http://www.w3.org/2000/svg");
+    svg.remove();
+});
+
+test("component releases its bindings when unmounted and renders again when mounted", async () => {
+    const s = stream<string>();
+    const text = hold(s)("a");
+    const log: string[] = [];
+    const Label = component((_:{}, {mounted, unmounted}) => {
+        listen(mounted)((p) => log.push(`mounted ${(p as Element).tagName}`));
+        listen(unmounted)(() => log.push("unmounted"));
+        return { span: jshtml(text) };
+    });
+    const label = Label({});
+    const div = jshtml({ div: label.node, $: {} });
+    document.body.append(div);
+    await tick();
+    drip(s)("b");
+    assert.equal(div.textContent, "b");
+    div.remove();
+    await tick();
+    assert.equal(countRefs(s, true)(), 1);
+    drip(s)("c");
+    document.body.append(div);
+    await tick();
+    assert.equal(div.textContent, "c");
+    drip(s)("d");
+    assert.equal(div.textContent, "d");
+    assert.deepEqual(log, ["mounted DIV", "unmounted", "mounted DIV"]);
+    label.dispose();
+    assert.equal(countRefs(s, true)(), 1);
+    div.remove();
+});
+
+test("the DOM of one component instance can be created only once", () => {
+    const label = component(() => ({ span: "x" }))({});
+    jshtml(label.node);
+    assert.throws(() => jshtml(label.node), /twice/);
+    label.dispose();
+});
+
+test("defineElement renders attributes and properties as cells and tears down when disconnected", async () => {
+    const log: unknown[] = [];
+    defineElement("x-counter", {
+        observedAttributes: ["label"],
+        properties: { count: 0 },
+        render: ({attrs, props, emit, slotchange}) => {
+            listen(slotchange())((nodes) => log.push(nodes.length));
+            return [
+                jshtml({ button: jshtml(lift([attrs.label, props.count], (l, n) => `${l}:${n}`)), $: { onclick: () => emit<number>("inc")(props.count() + 1) } }),
+                { slot: null }
+            ];
+        }
+    });
+    const e = document.createElement("x-counter") as HTMLElement & { count:number };
+    e.setAttribute("label", "n");
+    e.addEventListener("inc", (ev) => log.push((ev as CustomEvent<number>).detail));
+    document.body.append(e);
+    const root = e.shadowRoot!;
+    assert.equal(root.textContent, "n:0");
+    e.count = 2;
+    e.setAttribute("label", "m");
+    assert.equal(root.textContent, "m:2");
+    root.querySelector("button")!.click();
+    e.append("slotted");
+    await tick();
+    assert.deepEqual(log, [3, 1]);
+    e.remove();
+    assert.equal(root.childNodes.length, 0);
+});
+
+test("on* attributes drip events into streams directly or through one delegated listener", async () => {
+    const clicks = stream<Event>();
+    const log: string[] = [];
+    listen(clicks)((ev) => log.push(`${(ev.target as Element).textContent} ${ev.defaultPrevented}`));
+    const a = jshtml<"button">({ button: "a", $: { onclick: clicks } });
+    const b = jshtml<"button">({ button: "b", $: { onclick: { sink: clicks, preventDefault: true, once: true } } });
+    const c = jshtml<"button">({ button: "c", $: { onclick: { sink: clicks, delegate: true } } });
+    document.body.append(a, b, c);
+    await tick();
+    [a, b, b, c].forEach((e) => e.click());
+    assert.deepEqual(log, ["a false", "b true", "c false"]);
+    c.remove();
+    await tick();
+    document.body.append(c);
+    c.click();
+    assert.deepEqual(log, ["a false", "b true", "c false"]);
+    a.remove();
+    b.remove();
+    c.remove();
+});
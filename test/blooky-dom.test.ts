@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { stream, hold, listen, countRefs } from "../blooky";
+import { each, component, renderToString } from "../blooky-dom";
+
+test("renderToString renders each without a DOM", () => {
+    assert.equal(typeof Comment, "undefined");
+    const list = hold(stream<{ id:number, t:string }[]>())([{ id: 1, t: "a" }, { id: 2, t: "b" }]);
+    const html = renderToString({ ul: each(list, (v) => v.id, (item, k) => ({ li: item().t, $: { id: "k" + k } })) });
+    assert.equal(html,
+        "<ul><!--[jshtml::each]-->" +
+        "<!--[jshtml::row]--><li id=\"k1\">a</li><!--[jshtml::row]-->" +
+        "<!--[jshtml::row]--><li id=\"k2\">b</li><!--[jshtml::row]-->" +
+        "<!--[jshtml::each]--></ul>");
+});
+
+test("renderToString renders an empty range for each over a stream", () => {
+    const html = renderToString({ ul: each(stream<number[]>(), (v) => v, (item) => ({ li: item() })) });
+    assert.equal(html, "<ul><!--[jshtml::each]--><!--[jshtml::each]--></ul>");
+});
+
+test("renderToString renders a component once without mounting it", () => {
+    const s = stream<string>();
+    const c = hold(s)("x");
+    const log: string[] = [];
+    const Label = component((p:{ prefix:string }, {mounted, unmounted}) => {
+        listen(mounted)(() => log.push("mounted"));
+        listen(unmounted)(() => log.push("unmounted"));
+        return { span: [p.prefix, c()] };
+    });
+    const label = Label({ prefix: ">" });
+    const html = renderToString({ div: label.node });
+    assert.equal(html, "<div><!--[jshtml::component]--><span>&gt;x</span><!--[jshtml::/component]--></div>");
+    assert.deepEqual(log, []);
+    label.dispose();
+    assert.equal(countRefs(s, true)(), 1);
+});
+
+test("renderToString releases the bindings made while rendering a component", () => {
+    const s = stream<string>();
+    const Echo = component(() => {
+        listen(s)(() => {});
+        return { span: "echo" };
+    });
+    assert.equal(renderToString(Echo({}).node), "<!--[jshtml::component]--><span>echo</span><!--[jshtml::/component]-->");
+    assert.equal(countRefs(s, true)(), 0);
+});
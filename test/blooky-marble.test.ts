@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { VirtualScheduler, moments, virtualScheduler, debounce, throttle, pipe } from "../blooky";
+import { parseMarbles, hot, observe, toMarbles, assertMarbles } from "../blooky-marble";
+
+/**
+ * moments.schedulerを仮想のスケジューラに差し替えて関数を実行する
+ * @param f
+ */
+const virtually = (f:(v:VirtualScheduler)=>void) => {
+    const scheduler = moments.scheduler;
+    const v = moments.scheduler = virtualScheduler();
+    try {
+        f(v);
+    } finally {
+        moments.scheduler = scheduler;
+    }
+}
+
+test("parseMarbles reads values, groups and completion", () => {
+    assert.deepEqual(parseMarbles("a-(bc)-x|", { x: 10 }), [
+        { frame: 0, values: ["a"], complete: false },
+        { frame: 2, values: ["b", "c"], complete: false },
+        { frame: 4, values: [10], complete: false },
+        { frame: 5, values: [], complete: true }
+    ]);
+});
+
+test("hot and observe replay a diagram through pipe", () => virtually((v) => {
+    const [records] = observe(pipe(hot("1-2--3", { 1: 1, 2: 2, 3: 3 }, 10))((n) => n * 2));
+    v.flush();
+    assert.deepEqual(records, [{ time: 0, value: 2 }, { time: 20, value: 4 }, { time: 50, value: 6 }]);
+    assert.equal(toMarbles(records, { a: 2, b: 4, c: 6 }, 10), "a-b--c");
+}));
+
+test("debounce passes the last value of each burst", () => virtually((v) => {
+    const [records] = observe(debounce(hot("a-b---c----|", {}, 10))(20));
+    v.flush();
+    assertMarbles(records, "----b---c", {}, 10);
+}));
+
+test("throttle drops values until its window has passed", () => virtually((v) => {
+    const [records] = observe(throttle(hot("a-b---c--|", {}, 10))(30));
+    v.flush();
+    assertMarbles(records, "a-----c", {}, 10);
+}));
+
+test("completion clears the stream and assertMarbles reports a mismatch", () => virtually((v) => {
+    const [records] = observe(hot("a-|-b"));
+    v.flush();
+    assertMarbles(records, "a");
+    assert.throws(() => assertMarbles(records, "a-b"), /expected "a-b" but observed "a"/);
+}));
@@ -0,0 +1,146 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { Stream, stream, listen, drip, transaction, countRefs } from "../blooky";
+import { once, take, skip, takeUntil, distinctUntilChanged, scan, partition, gate, startWith, pairwise, zip } from "../blooky-operators";
+
+/**
+ * ストリームに流れた値を記録する
+ * @param s
+ * @returns
+ */
+const collect = <A>(s:Stream<A>) : [A[], ()=>void] => {
+    const log: A[] = [];
+    return [log, listen(s)((v) => log.push(v))];
+}
+
+test("take and skip count every value", () => {
+    const s = stream<number>();
+    const [taken] = collect(take(s)(2));
+    const [skipped] = collect(skip(s)(2));
+    [1, 2, 3, 4].forEach((v) => drip(s)(v));
+    assert.deepEqual(taken, [1, 2]);
+    assert.deepEqual(skipped, [3, 4]);
+});
+
+test("once passes only the first value", () => {
+    const s = stream<number>();
+    const [log] = collect(once(s));
+    [1, 2].forEach((v) => drip(s)(v));
+    assert.deepEqual(log, [1]);
+});
+
+test("takeUntil stops at the first value of the notifier and drops values in the same transaction", () => {
+    const s = stream<number>();
+    const stop = stream<void>();
+    const [log] = collect(takeUntil(s)(stop));
+    drip(s)(1);
+    transaction(() => {
+        drip(s)(2);
+        drip(stop)(undefined);
+    });
+    drip(s)(3);
+    assert.deepEqual(log, [1]);
+});
+
+test("distinctUntilChanged compares with the value passed just before", () => {
+    const s = stream<number>();
+    const [log] = collect(distinctUntilChanged(s)());
+    [1, 1, 2, 1].forEach((v) => drip(s)(v));
+    assert.deepEqual(log, [1, 2, 1]);
+});
+
+test("scan and pairwise see every value", () => {
+    const s = stream<number>();
+    const [sums] = collect(scan(s)((v, acc:number) => acc + v, 0));
+    const [pairs] = collect(pairwise(s));
+    [1, 2, 3].forEach((v) => drip(s)(v));
+    assert.deepEqual(sums, [1, 3, 6]);
+    assert.deepEqual(pairs, [[1, 2], [2, 3]]);
+});
+
+test("zip pairs values in arrival order and keeps the rest queued", () => {
+    const a = stream<number>();
+    const b = stream<string>();
+    const [log] = collect(zip([a, b]));
+    [1, 2].forEach((v) => drip(a)(v));
+    drip(b)("x");
+    transaction(() => {
+        drip(a)(3);
+        drip(b)("y");
+    });
+    drip(b)("z");
+    assert.deepEqual(log, [[1, "x"], [2, "y"], [3, "z"]]);
+});
+
+test("partition splits values by a predicate", () => {
+    const s = stream<number | string>();
+    const [numbers, strings] = partition(s)((v):v is number => typeof v === "number");
+    const [n] = collect(numbers);
+    const [t] = collect(strings);
+    [1, "a", 2].forEach((v) => drip(s)(v));
+    assert.deepEqual(n, [1, 2]);
+    assert.deepEqual(t, ["a"]);
+});
+
+test("gate passes values only while the prop is true", () => {
+    const s = stream<number>();
+    let open = false;
+    const [log] = collect(gate(s)(() => open));
+    drip(s)(1);
+    open = true;
+    drip(s)(2);
+    assert.deepEqual(log, [2]);
+});
+
+test("startWith emits the initial value at the end of the transaction it was made in", () => {
+    const s = stream<number>();
+    const log = transaction(() => collect(startWith(s)(0))[0]);
+    drip(s)(1);
+    assert.deepEqual(log, [0, 1]);
+});
+
+test("values of an aborted transaction do not change the state of operators", () => {
+    const s = stream<number>();
+    const t = stream<number>();
+    const [taken] = collect(take(s)(1));
+    const [distinct] = collect(distinctUntilChanged(s)());
+    const [sums] = collect(scan(s)((v, acc:number) => acc + v, 0));
+    const [pairs] = collect(pairwise(s));
+    const [zipped] = collect(zip([s, t]));
+    assert.throws(() => transaction(() => {
+        drip(s)(1);
+        throw new Error("abort");
+    }), /abort/);
+    [2, 1].forEach((v) => drip(s)(v));
+    drip(t)(3);
+    assert.deepEqual(taken, [2]);
+    assert.deepEqual(distinct, [2, 1]);
+    assert.deepEqual(sums, [2, 3]);
+    assert.deepEqual(pairs, [[2, 1]]);
+    assert.deepEqual(zipped, [[2, 3]]);
+});
+
+test("startWith emits the initial value when it is first listened to, also outside a transaction and from an observer", () => {
+    const s = stream<number>();
+    const [outside] = collect(startWith(s)(0));
+    const t = stream<void>();
+    const inside: number[] = [];
+    listen(t)(() => listen(startWith(s)(10))((v) => inside.push(v)));
+    drip(t)(undefined);
+    drip(s)(1);
+    assert.deepEqual(outside, [0, 1]);
+    assert.deepEqual(inside, [10, 1]);
+});
+
+test("operators release their source once nothing listens", () => {
+    const s = stream<number>();
+    const t = stream<number>();
+    const unlisten = ([
+        take(s)(2), skip(s)(1), takeUntil(s)(t), distinctUntilChanged(s)(), scan(s)((v, acc:number) => acc + v, 0), pairwise(s), zip([s, t])
+    ] as Stream<unknown>[]).map((o) => listen(o)(() => {}));
+    [1, 2, 3].forEach((v) => drip(s)(v));
+    assert.equal(countRefs(s, true)(), unlisten.length);
+    unlisten.forEach((f) => f());
+    assert.equal(countRefs(s, true)(), 0);
+    assert.equal(countRefs(t, true)(), 0);
+});
@@ -0,0 +1,99 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { VirtualScheduler, moments, virtualScheduler, stream, hold, lift, listen, drip, transaction } from "../blooky";
+import { Codec, record, replay, capture, compare } from "../blooky-record";
+
+/**
+ * moments.schedulerを仮想のスケジューラに差し替えて関数を実行する
+ * @param f
+ */
+const virtually = async (f:(v:VirtualScheduler)=>void|Promise<void>) => {
+    const scheduler = moments.scheduler;
+    const v = moments.scheduler = virtualScheduler();
+    try {
+        await f(v);
+    } finally {
+        moments.scheduler = scheduler;
+    }
+}
+
+/**
+ * 記録と再生に用いるグラフを組み立てる
+ * @returns
+ */
+const graph = () => {
+    const a = stream<number>();
+    const b = stream<Date>();
+    const sum = lift([hold(a)(0), hold(b)(new Date(0))], (n, d) => n + d.getTime());
+    return { a, b, sum };
+}
+
+const dates: Codec<Date> = { serialize: (d) => d.getTime(), deserialize: (v) => new Date(v as number) };
+
+test("record keeps the time and the transaction of each drip and skips drips made by observers", () => virtually((v) => {
+    const {a, b} = graph();
+    const echo = stream<number>();
+    listen(a)((n) => drip(echo)(n * 10));
+    const recorder = record({ a, b: { stream: b, codec: dates }, echo });
+    drip(a)(1);
+    v.advance(20);
+    transaction(() => {
+        drip(a)(2);
+        drip(b)(new Date(5));
+    });
+    recorder.stop();
+    drip(a)(3);
+    assert.deepEqual(recorder.recording(), { version: 1, entries: [
+        { time: 0, group: 1, source: "a", value: 1 },
+        { time: 20, group: 2, source: "a", value: 2 },
+        { time: 20, group: 2, source: "b", value: 5 }
+    ] });
+}));
+
+test("replay drips a recording into a new graph at the recorded times and blocks other drips meanwhile", () => virtually(async (v) => {
+    const original = graph();
+    const recorder = record({ a: original.a, b: { stream: original.b, codec: dates } });
+    const [expected] = capture({ sum: original.sum });
+    drip(original.a)(1);
+    v.advance(10);
+    transaction(() => {
+        drip(original.a)(2);
+        drip(original.b)(new Date(100));
+    });
+    recorder.stop();
+    const recording = JSON.parse(JSON.stringify(recorder.recording()));
+    const copy = graph();
+    const [actual] = capture({ sum: copy.sum });
+    const [done] = replay(recording, { a: copy.a, b: { stream: copy.b, codec: dates } }, { speed: 2 });
+    drip(copy.a)(50);
+    v.advance(4);
+    assert.deepEqual(actual.map((e) => e.value), [1]);
+    v.advance(1);
+    await done;
+    assert.deepEqual(actual.map((e) => [e.time, e.value]), [[0, 1], [5, 102]]);
+    assert.equal(compare(expected, actual), null);
+    drip(copy.a)(7);
+    assert.equal(copy.sum(), 107);
+}));
+
+test("replay refuses a recording with a stream it was not given and stopping it ends the replay", () => virtually(async (v) => {
+    const a = stream<number>();
+    const recording = { version: 1 as const, entries: [{ time: 10, group: 1, source: "a", value: 1 }] };
+    assert.throws(() => replay(recording, {}), /replay has no stream named "a"/);
+    const log: number[] = [];
+    listen(a)((n) => log.push(n));
+    const [done, stop] = replay(recording, { a });
+    stop();
+    await done;
+    v.flush();
+    drip(a)(2);
+    assert.deepEqual(log, [2]);
+}));
+
+test("compare reports the first entry whose source or value differs", () => {
+    const entry = (source:string, value:unknown, time = 0) => ({ time, group: 1, source, value });
+    assert.equal(compare([entry("x", { n: 1 })], [entry("x", { n: 1 }, 30)]), null);
+    assert.deepEqual(compare([entry("x", 1), entry("x", 2)], [entry("x", 1), entry("y", 2)]),
+        { index: 1, expected: entry("x", 2), actual: entry("y", 2) });
+    assert.deepEqual(compare([entry("x", 1)], []), { index: 0, expected: entry("x", 1), actual: undefined });
+});
@@ -0,0 +1,113 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { stream, hold, listen, drip, clear, countRefs } from "../blooky";
+import { exportStream, importStream, importCell } from "../blooky-worker";
+
+/**
+ * ポートに届いたメッセージが処理されるまで待つ
+ * @returns
+ */
+const tick = () => new Promise((r) => setTimeout(r, 10));
+
+/**
+ * 値を送り合うポートの組を作り、検査の後にポートを閉じる
+ * @param f
+ * @returns
+ */
+const channel = async (f:(a:MessagePort, b:MessagePort) => Promise<void>) => {
+    const {port1, port2} = new MessageChannel();
+    try {
+        await f(port1, port2);
+    }
+    finally {
+        port1.close();
+        port2.close();
+    }
+}
+
+test("importStream receives the values of the exported stream", () => channel(async (a, b) => {
+    const s = stream<number>();
+    exportStream(s, a);
+    const log: number[] = [];
+    listen(importStream<number>(b))((v) => log.push(v));
+    await tick();
+    [1, 2].forEach((v) => drip(s)(v));
+    await tick();
+    assert.deepEqual(log, [1, 2]);
+}));
+
+test("importCell starts from the current value of the exported cell", () => channel(async (a, b) => {
+    const s = stream<string>();
+    const c = hold(s)("x");
+    exportStream(c, a);
+    const imported = importCell<string>(b)("");
+    listen(imported.updates())(() => {});
+    assert.equal(imported(), "");
+    await tick();
+    assert.equal(imported(), "x");
+    drip(s)("y");
+    await tick();
+    assert.equal(imported(), "y");
+}));
+
+test("clearing the exported stream closes the importer", () => channel(async (a, b) => {
+    const s = stream<number>();
+    exportStream(s, a);
+    const imported = importStream<number>(b);
+    listen(imported)(() => {});
+    await tick();
+    clear(s);
+    await tick();
+    assert.equal(countRefs(imported, true)(), 0);
+}));
+
+test("closing the importer stops the exporter", () => channel(async (a, b) => {
+    const s = stream<number>();
+    exportStream(s, a);
+    const unlisten = listen(importStream<number>(b))(() => {});
+    await tick();
+    unlisten();
+    drip(s)(1);
+    await tick();
+    assert.equal(countRefs(s, true)(), 0);
+}));
+
+test("over a BroadcastChannel the exporter keeps sending until every importer has closed", async () => {
+    const [a, b, c] = [0, 1, 2].map(() => new BroadcastChannel("blooky-test"));
+    try {
+        const s = stream<number>();
+        exportStream(s, a);
+        const log: string[] = [];
+        const unlistenB = listen(importStream<number>(b))((v) => log.push(`b${v}`));
+        const unlistenC = listen(importStream<number>(c))((v) => log.push(`c${v}`));
+        await tick();
+        unlistenB();
+        drip(s)(1);
+        await tick();
+        drip(s)(2);
+        await tick();
+        assert.deepEqual(log, ["c1", "c2"]);
+        unlistenC();
+        drip(s)(3);
+        await tick();
+        assert.equal(countRefs(s, true)(), 0);
+    }
+    finally {
+        [a, b, c].forEach((p) => p.close());
+    }
+});
+
+test("a value arriving before the importer is listened to does not close it", () => channel(async (a, b) => {
+    const s = stream<number>();
+    exportStream(s, a);
+    const imported = importStream<number>(b);
+    await tick();
+    drip(s)(1);
+    await tick();
+    const log: number[] = [];
+    listen(imported)((v) => log.push(v));
+    drip(s)(2);
+    await tick();
+    assert.deepEqual(log, [2]);
+    assert.equal(countRefs(s, true)(), 1);
+}));
@@ -0,0 +1,684 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { Stream, FlowError, VirtualScheduler, stream, hold, accum, lift, merge, pipe, filter, snapshot, listen, drip, transaction, isCell, countRefs, scope, untracked, streamLoop, cellLoop, switchS, switchC, catchError, DripError, moments, virtualScheduler, debounce, throttle, delay, auditTime, bufferTime, bufferCount, fromPromise, fromAsyncIterable, nextValue, iterate, named, nameOf, describeGraph, toDot, traced, formatTrace } from "../blooky";
+
+/**
+ * 関数の実行中にdrip.onErrorへ報告されたエラーを集める
+ * @param f
+ * @returns
+ */
+const reported = (f:()=>void) : FlowError[] => {
+    const errors: FlowError[] = [];
+    const onError = drip.onError;
+    drip.onError = (e) => errors.push(e);
+    try {
+        f();
+    } finally {
+        drip.onError = onError;
+    }
+    return errors;
+}
+
+/**
+ * moments.schedulerを仮想のスケジューラに差し替えて関数を実行する
+ * @param f
+ */
+const virtually = (f:(v:VirtualScheduler)=>void) => {
+    const scheduler = moments.scheduler;
+    const v = moments.scheduler = virtualScheduler();
+    try {
+        f(v);
+    } finally {
+        moments.scheduler = scheduler;
+    }
+}
+
+/**
+ * 待機中のPromiseの処理が進むまで待つ
+ * @returns
+ */
+const tick = () => new Promise((r) => setTimeout(r, 0));
+
+/**
+ * ストリームに流れた値を記録する
+ * @param s
+ * @returns
+ */
+const collect = <A>(s:Stream<A>) : [A[], ()=>void] => {
+    const log: A[] = [];
+    return [log, listen(s)((v) => log.push(v))];
+}
+
+test("transaction merges the values dripped into several streams", () => {
+    const a = stream<number>();
+    const b = stream<number>();
+    const [log] = collect(merge([a, b])((x, y) => x + y));
+    transaction(() => {
+        drip(a)(1);
+        drip(b)(2);
+    });
+    drip(a)(3);
+    assert.deepEqual(log, [3, 3]);
+});
+
+test("transaction calls observers and updates cells once at commit", () => {
+    const a = stream<number>();
+    const b = stream<number>();
+    const c = hold(a)(0);
+    const log: string[] = [];
+    listen(b)((v) => log.push(`b:${v} c:${c()}`));
+    transaction(() => {
+        drip(a)(1);
+        drip(b)(2);
+        log.push(`inside c:${c()}`);
+    });
+    assert.deepEqual(log, ["inside c:0", "b:2 c:0"]);
+    assert.equal(c(), 1);
+});
+
+test("nested transactions fold into the outer one", () => {
+    const a = stream<number>();
+    const b = stream<number>();
+    const [log] = collect(merge([a, b])((x, y) => x * y));
+    transaction(() => {
+        drip(a)(2);
+        transaction(() => drip(b)(3));
+        assert.deepEqual(log, []);
+    });
+    assert.deepEqual(log, [6]);
+});
+
+test("a second drip into the same stream in one transaction throws", () => {
+    const s = stream<number>();
+    const c = accum(s)((v, a:number) => a + v, 0);
+    assert.throws(() => transaction(() => {
+        drip(s)(1);
+        drip(s)(1);
+    }), /twice in one transaction/);
+    assert.equal(c(), 0);
+});
+
+test("a merge reached directly and through another merge fires once with every value", () => {
+    const s = stream<number>();
+    const t = stream<number>();
+    const inner = merge([pipe(s)((v) => v * 10), t])((x, y) => x + y);
+    const [log] = collect(merge([s, inner])((x, y) => x + y));
+    const [all] = collect(merge([inner, merge([s])((x) => x)])((x, y) => x * y));
+    transaction(() => {
+        drip(s)(1);
+        drip(t)(2);
+    });
+    assert.deepEqual(log, [13]);
+    assert.deepEqual(all, [12]);
+});
+
+test("hold makes a cell that samples, updates and changes", () => {
+    const s = stream<number>();
+    const c = hold(s)(1);
+    const [updates] = collect(c.updates());
+    const [changes] = collect(c.changes());
+    [1, 2, 2].forEach((v) => drip(s)(v));
+    assert.ok(isCell(c));
+    assert.equal(c.sample(), 2);
+    assert.deepEqual(updates, [1, 2, 2]);
+    assert.deepEqual(changes, [2]);
+});
+
+test("changes uses the given equality", () => {
+    const s = stream<{ id:number }>();
+    const c = hold(s)({ id: 1 });
+    const [log] = collect(c.changes((a, b) => a.id === b.id));
+    [{ id: 1 }, { id: 2 }].forEach((v) => drip(s)(v));
+    assert.deepEqual(log, [{ id: 2 }]);
+});
+
+test("values emits the current value when a downstream stream is first listened to", () => {
+    const s = stream<number>();
+    const c = hold(s)(5);
+    const v = pipe(c.values())((v) => v * 10);
+    drip(s)(6);
+    const [log] = collect(v);
+    drip(s)(7);
+    assert.deepEqual(log, [60, 70]);
+});
+
+test("values emits the current value once, in the transaction that listens to it", () => {
+    const s = stream<number>();
+    const c = hold(s)(1);
+    const log = transaction(() => {
+        const [log] = collect(c.values());
+        drip(s)(2);
+        return log;
+    });
+    assert.deepEqual(log, [2]);
+});
+
+test("values listened to from an observer emits in a follow-up drip", () => {
+    const s = stream<number>();
+    const t = stream<void>();
+    const c = hold(s)(1);
+    const log: number[] = [];
+    listen(t)(() => listen(c.values())((v) => log.push(v)));
+    drip(t)(undefined);
+    drip(s)(2);
+    assert.deepEqual(log, [1, 2]);
+});
+
+test("lift recomputes once per transaction from the values after it", () => {
+    const s = stream<number>();
+    const a = hold(s)(1);
+    const b = lift([a], (x) => x * 10);
+    let calls = 0;
+    const d = lift([a, b], (x, y) => {
+        calls++;
+        return x + y;
+    });
+    const [log] = collect(d.updates());
+    calls = 0;
+    drip(s)(2);
+    assert.deepEqual(log, [22]);
+    assert.equal(d(), 22);
+    assert.equal(calls, 1);
+    drip(s)(2);
+    assert.equal(calls, 1);
+});
+
+test("lift over plain props makes a prop", () => {
+    let n = 1;
+    const p = lift([() => n], (x) => x + 1);
+    assert.ok(!isCell(p));
+    n = 2;
+    assert.equal(p(), 3);
+});
+
+test("streamLoop forwards the values of the stream it is bound to", () => {
+    const l = streamLoop<number>();
+    const [log] = collect(pipe(l)((v) => v * 2));
+    const s = stream<number>();
+    l.loop(s);
+    drip(s)(3);
+    assert.deepEqual(log, [6]);
+});
+
+test("cellLoop lets a cell depend on a snapshot of itself", () => {
+    const click = stream<void>();
+    const counter = cellLoop<number>();
+    counter.loop(hold(pipe(snapshot(click)(counter))((n) => n + 1))(0));
+    [1, 2, 3].forEach(() => drip(click)(undefined));
+    assert.equal(counter(), 3);
+});
+
+test("a value that comes round a loop does not re-enter the propagation", () => {
+    const s = stream<number>();
+    const loop = streamLoop<number>();
+    const out = pipe(merge([s, pipe(loop)((v) => v)])((a, b) => a + b))((v) => v + 1);
+    loop.loop(out);
+    const [log] = collect(out);
+    drip(s)(1);
+    drip(s)(5);
+    assert.deepEqual(log, [2, 6]);
+
+    const t = stream<number>();
+    const back = streamLoop<number>();
+    const ring = pipe(merge([t, back])((a) => a))((v) => v * 10);
+    back.loop(pipe(ring)((v) => v + 1));
+    const [ringLog] = collect(ring);
+    const [backLog] = collect(back);
+    drip(t)(1);
+    assert.deepEqual(ringLog, [10]);
+    assert.deepEqual(backLog, [11]);
+
+    const direct = streamLoop<number>();
+    const next = pipe(direct)((v) => v + 1);
+    direct.loop(next);
+    const [nextLog] = collect(next);
+    drip(next)(1);
+    assert.deepEqual(nextLog, [2]);
+});
+
+test("a loop cannot be bound twice and an unbound loop cannot be dripped into", () => {
+    const s = stream<number>();
+    const l = streamLoop<number>();
+    streamLoop<number>();
+    drip(s)(1);
+    assert.throws(() => drip(l)(1), /before it is bound with loop/);
+    l.loop(s);
+    assert.throws(() => l.loop(s), /already bound/);
+    assert.throws(() => cellLoop<number>()(), /cannot be sampled before it is bound/);
+});
+
+test("switchS delivers a value from the switching transaction to the old inner stream", () => {
+    const a = stream<string>();
+    const b = stream<string>();
+    const sw = stream<Stream<string>>();
+    const [log] = collect(switchS(hold(sw)(a)));
+    transaction(() => {
+        drip(a)("a1");
+        drip(sw)(b);
+    });
+    drip(a)("a2");
+    drip(b)("b1");
+    assert.deepEqual(log, ["a1", "b1"]);
+    assert.equal(countRefs(a, true)(), 0);
+});
+
+test("switchS can be listened to after a switch and is released by its scope", () => {
+    const a = stream<number>();
+    const b = stream<number>();
+    const sw = stream<Stream<number>>();
+    const c = hold(sw)(a);
+    const [o, dispose] = scope(() => switchS(c));
+    drip(sw)(b);
+    const [log] = collect(o);
+    drip(b)(1);
+    assert.deepEqual(log, [1]);
+    dispose();
+    drip(sw)(a);
+    assert.equal(countRefs(a, true)(), 0);
+    assert.equal(countRefs(b, true)(), 0);
+    assert.equal(countRefs(sw, true)(), 1);
+});
+
+test("switchC follows the current inner cell", () => {
+    const x = stream<number>();
+    const y = stream<number>();
+    const cx = hold(x)(1);
+    const cy = hold(y)(10);
+    const sw = stream<typeof cx>();
+    const c = switchC(hold(sw)(cx));
+    const [log] = collect(c.updates());
+    drip(x)(2);
+    drip(sw)(cy);
+    drip(x)(3);
+    drip(y)(11);
+    assert.deepEqual(log, [2, 10, 11]);
+    assert.equal(c(), 11);
+});
+
+test("an error in a functor is reported with its stream and value and other branches still flow", () => {
+    const s = stream<number>();
+    const bad = pipe(s)((v) => {
+        if (v < 0) throw new Error("negative");
+        return v;
+    });
+    const [ok] = collect(pipe(s)((v) => v * 2));
+    const [log] = collect(bad);
+    const errors = reported(() => drip(s)(-1));
+    assert.deepEqual(ok, [-2]);
+    assert.deepEqual(log, []);
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].stream, bad);
+    assert.equal(errors[0].value, -1);
+    assert.match(String(errors[0].error), /negative/);
+});
+
+test("catchError turns an error into a value for the innermost handler only", () => {
+    const s = stream<number>();
+    const p = pipe(s)((v) => v);
+    const bad = pipe(p)(():number => {
+        throw new Error("boom");
+    });
+    collect(bad);
+    const [outer] = collect(catchError(s)(() => "outer"));
+    const [inner] = collect(catchError(p)((e) => `inner ${e.value}`));
+    const errors = reported(() => drip(s)(1));
+    assert.deepEqual(inner, ["inner 1"]);
+    assert.deepEqual(outer, []);
+    assert.deepEqual(errors, []);
+});
+
+test("an error in an observer is reported without stopping other observers or updates", () => {
+    const s = stream<number>();
+    const c = hold(s)(0);
+    listen(s)(() => {
+        throw new Error("observer");
+    });
+    const [log] = collect(s);
+    const errors = reported(() => drip(s)(1));
+    assert.deepEqual(log, [1]);
+    assert.equal(c(), 1);
+    assert.equal(errors.length, 1);
+});
+
+test("rethrow raises the unhandled errors as a DripError", () => {
+    const s = stream<number>();
+    collect(pipe(s)(():number => {
+        throw new Error("boom");
+    }));
+    assert.throws(() => drip(s, { rethrow: true })(1), (e) => e instanceof DripError && e.errors.length === 1);
+    assert.throws(() => transaction(() => drip(s)(2), { rethrow: true }), DripError);
+    assert.equal(reported(() => drip(s)(3)).length, 1);
+});
+
+test("debounce passes the last value once the values pause", () => virtually((v) => {
+    const s = stream<number>();
+    const [log] = collect(debounce(s)(100));
+    drip(s)(1);
+    v.advance(50);
+    drip(s)(2);
+    v.advance(99);
+    assert.deepEqual(log, []);
+    v.advance(1);
+    assert.deepEqual(log, [2]);
+}));
+
+test("throttle passes the leading value and optionally the trailing one", () => virtually((v) => {
+    const s = stream<number>();
+    const [leading] = collect(throttle(s)(100));
+    const [both] = collect(throttle(s)(100, { trailing: true }));
+    drip(s)(1);
+    v.advance(10);
+    drip(s)(2);
+    v.advance(10);
+    drip(s)(3);
+    v.advance(80);
+    assert.deepEqual(leading, [1]);
+    assert.deepEqual(both, [1, 3]);
+    v.advance(200);
+    drip(s)(4);
+    assert.deepEqual(leading, [1, 4]);
+}));
+
+test("delay and auditTime pass values after the given time", () => virtually((v) => {
+    const s = stream<number>();
+    const [delayed] = collect(delay(s)(100));
+    const [audited] = collect(auditTime(s)(100));
+    drip(s)(1);
+    v.advance(30);
+    drip(s)(2);
+    v.advance(70);
+    assert.deepEqual(delayed, [1]);
+    assert.deepEqual(audited, [2]);
+    v.advance(30);
+    assert.deepEqual(delayed, [1, 2]);
+}));
+
+test("bufferTime and bufferCount pass the values collected together", () => virtually((v) => {
+    const s = stream<number>();
+    const [timed] = collect(bufferTime(s)(100));
+    const [counted] = collect(bufferCount(s)(2));
+    [1, 2, 3].forEach((n) => drip(s)(n));
+    v.advance(100);
+    drip(s)(4);
+    v.advance(100);
+    assert.deepEqual(timed, [[1, 2, 3], [4]]);
+    assert.deepEqual(counted, [[1, 2], [3, 4]]);
+}));
+
+test("time operators cancel their timers and release the source once nothing listens", () => virtually((v) => {
+    const s = stream<number>();
+    const [log, unlisten] = collect(delay(s)(100));
+    drip(s)(1);
+    unlisten();
+    v.advance(100);
+    assert.deepEqual(log, []);
+    assert.equal(countRefs(s, true)(), 0);
+}));
+
+test("fromPromise drips the resolved value and passes a rejection on as an error", async () => {
+    const [log] = collect(fromPromise(Promise.resolve(1)));
+    const rejected = fromPromise(Promise.reject(new Error("rejected")));
+    const [caught] = collect(catchError(rejected)((e) => String(e.error)));
+    const errors: FlowError[] = [];
+    const onError = drip.onError;
+    drip.onError = (e) => errors.push(e);
+    try {
+        collect(fromPromise(Promise.reject(new Error("unhandled"))));
+        await tick();
+    } finally {
+        drip.onError = onError;
+    }
+    assert.deepEqual(log, [1]);
+    assert.deepEqual(caught, ["Error: rejected"]);
+    assert.equal(errors.length, 1);
+    assert.match(String(errors[0].error), /unhandled/);
+});
+
+test("fromAsyncIterable drips each value and closes the iterator once nothing listens", async () => {
+    let closed = false;
+    const values = async function* () {
+        try {
+            for (let n = 1; ; n++) {
+                await tick();
+                yield n;
+            }
+        } finally {
+            closed = true;
+        }
+    };
+    const [log, unlisten] = collect(fromAsyncIterable(values()));
+    while (log.length < 3) await tick();
+    unlisten();
+    await tick();
+    await tick();
+    assert.equal(closed, true);
+    assert.equal(log.length, 3);
+});
+
+test("fromAsyncIterable closes a waiting iterator when its signal aborts", async () => {
+    let returned = false;
+    const pending: AsyncIterable<number> = {
+        [Symbol.asyncIterator]: () => ({
+            next: () => new Promise<IteratorResult<number>>(() => {}),
+            return: async () => {
+                returned = true;
+                return { value: undefined, done: true };
+            }
+        })
+    };
+    const controller = new AbortController();
+    collect(fromAsyncIterable(pending, { signal: controller.signal }));
+    await tick();
+    controller.abort();
+    await tick();
+    assert.equal(returned, true);
+});
+
+test("nextValue resolves with the next value and rejects when aborted", async () => {
+    const s = stream<number>();
+    const next = nextValue(s);
+    drip(s)(1);
+    drip(s)(2);
+    assert.equal(await next, 1);
+    assert.equal(countRefs(s, true)(), 0);
+    const controller = new AbortController();
+    const aborted = nextValue(s, { signal: controller.signal });
+    controller.abort(new Error("aborted"));
+    await assert.rejects(aborted, /aborted/);
+    assert.equal(countRefs(s, true)(), 0);
+});
+
+test("iterate buffers the values and unlistens on break", async () => {
+    const s = stream<number>();
+    const it = iterate(s);
+    [1, 2, 3].forEach((n) => drip(s)(n));
+    const log: number[] = [];
+    for await (const v of it) {
+        log.push(v);
+        if (v === 2) break;
+    }
+    assert.deepEqual(log, [1, 2]);
+    assert.equal(countRefs(s, true)(), 0);
+    assert.deepEqual(await it.next(), { value: undefined, done: true });
+});
+
+test("disposing a scope releases the pipes, filters, snapshots, merges, holds and listeners made in it", () => {
+    const s = stream<number>();
+    const other = stream<number>();
+    const [c, dispose] = scope(() => {
+        const doubled = pipe(s)((v) => v * 2);
+        const positive = filter(doubled)((v) => v > 0);
+        const c = hold(merge([positive, other])((a, b) => a + b))(0);
+        listen(snapshot(other)(c))(() => {});
+        return c;
+    });
+    drip(s)(1);
+    assert.equal(c(), 2);
+    dispose();
+    assert.equal(countRefs(s, true)(), 0);
+    assert.equal(countRefs(other, true)(), 0);
+    drip(s)(2);
+    assert.equal(c(), 2);
+});
+
+test("disposing a scope stops the timers started in it", () => virtually((v) => {
+    const [[timeout, interval], dispose] = scope(() => [collect(moments.timeout(100))[0], collect(moments.interval(30))[0]]);
+    v.advance(60);
+    dispose();
+    v.advance(100);
+    assert.deepEqual(timeout, []);
+    assert.equal(interval.length, 2);
+}));
+
+test("nested scopes are disposed with the outer one and leave shared streams alone", () => {
+    const s = stream<number>();
+    const [shared] = collect(s);
+    const [[inner], dispose] = scope(() => scope(() => collect(s)[0]));
+    drip(s)(1);
+    dispose();
+    drip(s)(2);
+    assert.deepEqual(inner, [1]);
+    assert.deepEqual(shared, [1, 2]);
+});
+
+test("untracked connections outlive the scope", () => {
+    const s = stream<number>();
+    const [[tracked, kept], dispose] = scope(() => [collect(s)[0], untracked(() => collect(s)[0])]);
+    dispose();
+    drip(s)(1);
+    assert.deepEqual(tracked, []);
+    assert.deepEqual(kept, [1]);
+});
+
+test("describeGraph and toDot show the named streams reachable from a root", () => {
+    const s = named("src")(stream<number>());
+    const odd = named("odd")(filter(s)((v) => v % 2 === 1));
+    const sum = named("sum")(merge([odd, stream<number>()])((a, b) => a + b));
+    collect(sum);
+    const g = describeGraph(s);
+    const [src, o, m] = ["src", "odd", "sum"].map((name) => g.nodes.find((n) => n.name === name)!);
+    assert.deepEqual([src.filter, o.filter, m.merge, m.observers], [false, true, true, 1]);
+    assert.deepEqual(g.edges, [{ from: src.id, to: o.id, kind: "next" }, { from: o.id, to: m.id, kind: "merge" }]);
+    assert.match(nameOf(stream()), /^stream#\d+$/);
+    const dot = toDot(g);
+    assert.match(dot, /^digraph blooky \{/);
+    assert.ok(dot.includes(`n${o.id} -> n${m.id} [style=dashed];`));
+});
+
+test("traced collects a tree of the streams each transaction passed through", () => {
+    const s = named("src")(stream<number>());
+    const odd = named("odd")(filter(s)((v) => v % 2 === 1));
+    const sum = named("sum")(merge([odd, stream<number>()])((a, b) => a + b));
+    collect(sum);
+    const [, traces] = traced(() => [1, 2].forEach((v) => drip(s)(v)));
+    assert.equal(traces.length, 2);
+    const [passed, filtered] = traces;
+    assert.equal(passed.drips[0].stream, "src");
+    assert.deepEqual(passed.drips[0].children.map((n) => [n.stream, n.output]), [["odd", 1]]);
+    assert.deepEqual(passed.merges.map((n) => [n.stream, n.output]), [["sum", 1]]);
+    assert.equal(passed.observers.calls, 1);
+    assert.equal(filtered.drips[0].children[0].filtered, true);
+    assert.deepEqual(filtered.merges, []);
+    assert.match(formatTrace(filtered), /odd: 2 \(filtered\)/);
+});
+
+test("drip.trace receives the traces until it is unset", () => {
+    const s = stream<number>();
+    const log: number[] = [];
+    drip.trace = (t) => log.push(t.drips.length);
+    try {
+        drip(s)(1);
+    } finally {
+        drip.trace = null;
+    }
+    drip(s)(2);
+    assert.deepEqual(log, [1]);
+});
+
+test("a propagation plan is rebuilt only when an edge on it changes", () => {
+    const s = stream<number>();
+    const [log] = collect(pipe(s)((v) => v + 1));
+    let visits = 0;
+    const forEach = s.next.forEach;
+    s.next.forEach = function (this:typeof s.next, ...args) {
+        visits++;
+        return forEach.apply(this, args);
+    };
+    drip(s)(1);
+    collect(pipe(stream<number>())((v) => v));
+    drip(s)(2);
+    assert.equal(visits, 1);
+    const [added] = collect(pipe(s)((v) => v * 10));
+    drip(s)(3);
+    assert.equal(visits, 2);
+    assert.deepEqual(log, [2, 3, 4]);
+    assert.deepEqual(added, [30]);
+});
+
+test("a connection made by a functor during the flow is followed in the same drip", () => {
+    const s = stream<number>();
+    const log: number[] = [];
+    collect(pipe(s)((v) => {
+        if (!log.length) listen(pipe(later)((x) => x * 10))((x) => log.push(x));
+        return v;
+    }));
+    const later = pipe(s)((v) => v);
+    drip(s)(1);
+    drip(s)(2);
+    assert.deepEqual(log, [10, 20]);
+});
+
+test("drips made by observers follow the transaction in the order they were made", () => {
+    const s = stream<number>();
+    const a = stream<string>();
+    const b = stream<string>();
+    const log: string[] = [];
+    listen(s)((v) => {
+        drip(b)(`b${v}`);
+        drip(a)(`a${v}`);
+        log.push(`s${v}`);
+    });
+    listen(a)((v) => log.push(v));
+    listen(b)((v) => log.push(v));
+    drip(s)(1);
+    assert.deepEqual(log, ["s1", "b1", "a1"]);
+});
+
+test("a transaction started by an observer is deferred as one transaction", () => {
+    const s = stream<number>();
+    const a = stream<number>();
+    const b = stream<number>();
+    const c = hold(stream<number>())(5);
+    const [sums] = collect(merge([a, b])((x, y) => x + y));
+    const values: number[] = [];
+    listen(s)(() => {
+        transaction(() => {
+            drip(a)(1);
+            drip(b)(2);
+            listen(c.values())((v) => values.push(v));
+        });
+        assert.throws(() => transaction(() => {
+            drip(a)(3);
+            throw new Error("abort");
+        }), /abort/);
+    });
+    drip(s)(0);
+    assert.deepEqual(sums, [3]);
+    assert.deepEqual(values, [5]);
+});
+
+test("drips that keep following each other stop at the maximum depth with the streams involved", () => {
+    const ping = named("ping")(stream<number>());
+    const [log] = collect(ping);
+    listen(ping)((v) => drip(ping)(v + 1));
+    const maxDepth = drip.maxDepth;
+    drip.maxDepth = 2;
+    try {
+        const errors = reported(() => drip(ping)(0));
+        assert.deepEqual(log, [0, 1, 2]);
+        assert.equal(errors.length, 1);
+        assert.match(String(errors[0].error), /maximum depth of 2 deferred drips: ping -> ping -> ping/);
+    } finally {
+        drip.maxDepth = maxDepth;
+    }
+});
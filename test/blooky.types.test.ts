@@ -0,0 +1,60 @@
+/**
+ * lift、snapshot、mergeWithの型推論の検査。
+ * tsc -p testの型検査で@ts-expect-errorの行がエラーにならなければ、検査は失敗する。
+ */
+import { test } from "node:test";
+import { Stream, Cell, Prop, stream, hold, listen, lift, snapshot, mergeWith } from "../blooky";
+
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+type ValueOf<S> = S extends Stream<infer V> ? V : never;
+const expectType = <T extends true>() => {};
+
+test("lift infers the argument and result types from the tuple", () => {
+    const n = hold(stream<number>())(1);
+    const s = hold(stream<string>())("a");
+    const p: Prop<boolean> = () => true;
+
+    const c = lift([n, s], (a, b) => b.repeat(a));
+    expectType<Equal<typeof c, Cell<string>>>();
+    const q = lift([n, p], (a, b) => b ? a : -a);
+    expectType<Equal<typeof q, Prop<number>>>();
+
+    // @ts-expect-error 引数の型は時変値の型の組から推論される
+    lift([n, s], (a:string, b:string) => a + b);
+    // @ts-expect-error 時変値の数より多い引数は受け取れない
+    lift([n], (a, b) => a);
+    // @ts-expect-error セルでない時変値を含めるとセルにはならない
+    const r: Cell<number> = lift([n, p], (a) => a);
+});
+
+test("snapshot infers the event and sampled value types", () => {
+    const clicks = stream<{ x:number }>();
+    const n = hold(stream<number>())(1);
+    const s = hold(stream<string>())("a");
+
+    const t = snapshot(clicks, [n, s], (e, a, b) => ({ x: e.x + a, label: b }));
+    expectType<Equal<ValueOf<typeof t>, { x:number, label:string }>>();
+    const u = snapshot(clicks)(s);
+    expectType<Equal<ValueOf<typeof u>, string>>();
+
+    // @ts-expect-error 時変値の値の型と異なる引数は受け取れない
+    snapshot(clicks, [n], (e, a:string) => a);
+    // @ts-expect-error イベントの値の型と異なる引数は受け取れない
+    snapshot(clicks, [n], (e:string, a) => a);
+});
+
+test("mergeWith infers a union tagged by the stream names", () => {
+    const m = mergeWith({ num: stream<number>(), str: stream<string>() });
+    expectType<Equal<ValueOf<typeof m>, { tag:"num", value:number } | { tag:"str", value:string }>>();
+
+    listen(m)((v) => {
+        if(v.tag === "num")
+            expectType<Equal<typeof v.value, number>>();
+        else
+            expectType<Equal<typeof v.value, string>>();
+    });
+    // @ts-expect-error 名前で絞り込んだ値は、その名前のストリームの値の型になる
+    listen(m)((v) => v.tag === "num" && v.value.toUpperCase());
+    // @ts-expect-error 存在しない名前とは比べられない
+    listen(m)((v) => v.tag === "bool");
+});